@@ -1,5 +1,7 @@
 // Principle 1: KISS (Keep It Simple, Stupid)
 
+import { RateLimiter, RateLimitResult } from './03-contain-blast-radius';
+
 // ❌ BAD: Over-complicated way to get Bitcoin price
 class ComplexCryptoPrice {
   private priceCalculator: PriceCalculator;
@@ -66,6 +68,8 @@ class ComplexSubscriptionChecker {
 
 // ✅ GOOD: Simple subscription check
 class SimpleSubscriptionChecker {
+  constructor(private rateLimiter: RateLimiter = new RateLimiter()) {}
+
   async canUserMakeQuery(userId: string): Promise<boolean> {
     // Get user's current usage and limit
     const usage = await this.getUserUsage(userId);
@@ -75,6 +79,34 @@ class SimpleSubscriptionChecker {
     return usage < limit;
   }
 
+  // Check AND count in one step - two concurrent requests can't both sneak in under the limit
+  async consumeQuery(userId: string, tenantId: string, plan: string): Promise<RateLimitResult> {
+    // Per-second burst protection first (cheap, in memory or Redis)
+    const burst = await this.rateLimiter.consume({ userId, tenantId, plan });
+    if (!burst.allowed) return burst;
+
+    // Monthly quota: the WHERE clause makes the increment itself the check
+    const result = await db.query(
+      'UPDATE users SET queries_used = queries_used + 1 WHERE id = ? AND queries_used < query_limit RETURNING queries_used, query_limit',
+      [userId]
+    );
+
+    if (!result[0]) {
+      // Turned away by the quota - that request mustn't also eat into the user's burst allowance
+      await this.rateLimiter.refund({ userId, tenantId, plan });
+      const limit = await this.getUserLimit(userId);
+      return { allowed: false, limit, remaining: 0, resetMs: this.msUntilNextMonth(), retryAfterMs: this.msUntilNextMonth() };
+    }
+
+    return {
+      allowed: true,
+      limit: result[0].query_limit,
+      remaining: result[0].query_limit - result[0].queries_used,
+      resetMs: this.msUntilNextMonth(),
+      retryAfterMs: 0
+    };
+  }
+
   private async getUserUsage(userId: string): Promise<number> {
     const result = await db.query('SELECT queries_used FROM users WHERE id = ?', [userId]);
     return result[0]?.queries_used || 0;
@@ -84,6 +116,11 @@ class SimpleSubscriptionChecker {
     const result = await db.query('SELECT query_limit FROM users WHERE id = ?', [userId]);
     return result[0]?.query_limit || 100;
   }
+
+  private msUntilNextMonth(): number {
+    const now = new Date();
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) - now.getTime();
+  }
 }
 
 // Key takeaway: Start simple, add complexity only when needed!
@@ -0,0 +1,141 @@
+// Migration runner tests against a real in-memory SQLite database - no database server needed
+// Run: node --test (after compiling) or npx tsx --test 02-reversible-decisions.test.ts
+// The migration tests need node:sqlite (Node 22.5+) and are skipped on older Node versions
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Migration, MIGRATIONS, MigrationRunner, RuntimeConfig, SqlExecutor, VersionedConfigStore } from './02-reversible-decisions';
+
+// The slice of node:sqlite we use - typed here so the file compiles against older @types/node
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): { all(...params: unknown[]): any[] };
+}
+
+function loadSqlite(): (new (path: string) => SqliteDatabase) | null {
+  try {
+    return require('node:sqlite').DatabaseSync;
+  } catch {
+    return null;
+  }
+}
+
+const DatabaseSync = loadSqlite();
+const skip = DatabaseSync ? false : 'node:sqlite needs Node 22.5+';
+
+// SQLite numbers its parameters ?1, ?2 - same positions as Postgres' $1, $2
+class SqliteExecutor implements SqlExecutor {
+  readonly dialect = 'sqlite';
+  readonly db = new DatabaseSync!(':memory:');
+
+  async query(sql: string, params: any[] = []): Promise<any[]> {
+    return this.db.prepare(sql.replace(/\$(\d+)/g, '?$1')).all(...params);
+  }
+
+  columns(table: string): string[] {
+    return this.db.prepare(`PRAGMA table_info(${table})`).all().map(column => column.name);
+  }
+
+  tables(): string[] {
+    return this.db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all().map(row => row.name);
+  }
+}
+
+function runner(db: SqlExecutor, runningVersions: number[], migrations: Migration[] = MIGRATIONS): MigrationRunner {
+  return new MigrationRunner(db, migrations, async () => runningVersions);
+}
+
+test('expand creates the schema once and backfills balance_cents', { skip }, async () => {
+  const db = new SqliteExecutor();
+  assert.deepEqual(await runner(db, [41], MIGRATIONS.slice(0, 4)).expand(), [1, 2, 3, 4]);
+  await db.query(`INSERT INTO users (id, email, balance) VALUES ($1, $2, $3)`, ['u1', 'a@example.com', 12.34]);
+
+  // A second runner on the same database picks up where the first one stopped
+  assert.deepEqual(await runner(db, [41]).expand(), [5]);
+  assert.deepEqual(await runner(db, [41]).expand(), []);
+
+  assert.deepEqual((await db.query('SELECT balance_cents FROM users')).map(row => row.balance_cents), [1234]);
+  assert.ok(['order_items', 'orders', 'portfolio_holdings', 'user_queries', 'users'].every(table => db.tables().includes(table)));
+  assert.ok((await runner(db, [41]).status()).every(m => m.phase === 'expanded'));
+
+  // Auto-increment ids work on this dialect too
+  await db.query(`INSERT INTO user_queries (user_id, query_text, created_at) VALUES ($1, $2, $3)`, ['u1', 'btc?', '2026-01-01']);
+  assert.deepEqual((await db.query('SELECT id FROM user_queries')).map(row => row.id), [1]);
+});
+
+test('a failed expand rolls back its DDL and is not recorded', { skip }, async () => {
+  const db = new SqliteExecutor();
+  const broken: Migration = {
+    version: 6,
+    name: 'add nickname',
+    expand: ['ALTER TABLE users ADD COLUMN nickname TEXT', 'UPDATE no_such_table SET x = 1'],
+    rollbackExpand: ['ALTER TABLE users DROP COLUMN nickname']
+  };
+
+  await assert.rejects(runner(db, [41], [...MIGRATIONS, broken]).expand(), /no such table/);
+
+  assert.equal(db.columns('users').includes('nickname'), false);
+  const phases = await runner(db, [41], [...MIGRATIONS, broken]).status();
+  assert.deepEqual(phases.map(m => m.phase), ['expanded', 'expanded', 'expanded', 'expanded', 'expanded', 'pending']);
+});
+
+test('contract waits until no old build is running, then drops the old column', { skip }, async () => {
+  const db = new SqliteExecutor();
+  await runner(db, [41]).expand();
+
+  await assert.rejects(runner(db, [41, 42]).contract(5), /app version 41 is still running/);
+  await assert.rejects(runner(db, []).contract(5), /no running app versions/);
+  assert.ok(db.columns('users').includes('balance'));
+
+  await runner(db, [42, 43]).contract(5);
+  assert.equal((await runner(db, [42]).status()).find(m => m.version === 5)?.phase, 'contracted');
+  assert.equal(db.columns('users').includes('balance'), false);
+  assert.ok(db.columns('users').includes('balance_cents'));
+});
+
+test('contract without a declared safe version is refused', { skip }, async () => {
+  const db = new SqliteExecutor();
+  const undeclared: Migration = {
+    version: 1,
+    name: 'legacy table',
+    expand: ['CREATE TABLE legacy (id TEXT PRIMARY KEY)'],
+    rollbackExpand: ['DROP TABLE legacy'],
+    contract: ['DROP TABLE legacy']
+  };
+  await runner(db, [100], [undeclared]).expand();
+
+  await assert.rejects(runner(db, [100], [undeclared]).contract(1), /doesn't declare contractSafeFromAppVersion/);
+  assert.ok(db.tables().includes('legacy'));
+});
+
+test('rollback undoes the last expand but never a contract', { skip }, async () => {
+  const db = new SqliteExecutor();
+  await runner(db, [42]).expand();
+
+  assert.equal(await runner(db, [42]).rollbackLastExpand(), 5);
+  assert.equal(db.columns('users').includes('balance_cents'), false);
+  assert.equal((await runner(db, [42]).status()).find(m => m.version === 5)?.phase, 'pending');
+
+  await runner(db, [42]).expand();
+  await runner(db, [42]).contract(5);
+  await assert.rejects(runner(db, [42]).rollbackLastExpand(), /already contracted/);
+  assert.ok(db.columns('users').includes('balance_cents'));
+});
+
+test('config versions are deep copies that nobody can change afterwards', () => {
+  const prices = { basic: 10, pro: 20, enterprise: 100 };
+  const initial: RuntimeConfig = { 'plans.prices': prices, 'llm.maxConcurrent': 5 };
+  const store = new VersionedConfigStore(initial);
+  const quiet = console.log;
+  console.log = () => {};
+  try {
+    store.set({ 'llm.maxConcurrent': 8 }, 'ops', 'more capacity');
+  } finally {
+    console.log = quiet;
+  }
+
+  prices.pro = 0; // the caller's object is not the stored one
+  assert.equal(store.get('plans.prices').pro, 20);
+  assert.ok(Object.isFrozen(store.get('plans.prices')));
+  assert.throws(() => { (store.current().values['plans.prices'] as { pro: number }).pro = 0; }, TypeError);
+  assert.deepEqual(store.diff(1), [{ key: 'llm.maxConcurrent', before: 5, after: 8 }]);
+});
@@ -1,5 +1,9 @@
 // Principle 2: Bias to Reversible Decisions
 
+import { readFileSync, renameSync, watchFile, unwatchFile, writeFileSync } from 'fs';
+import { IdempotencyGuard } from './03-contain-blast-radius';
+import { CanaryAnalyzer, instrument, metrics, MetricsRegistry } from './04-observability-first';
+
 // ❌ BAD: Hard-coded to Stripe - can't switch later
 class BadPaymentService {
   async chargeUser(amount: number, cardToken: string): Promise<string> {
@@ -38,20 +42,359 @@ class PayPalProvider implements PaymentProvider {
   }
 }
 
+// ✅ EVEN BETTER: Flip implementations at runtime - no redeploy needed
+// An env-var ternary is read once at startup, so "turning it off" means a deploy.
+// A flag service re-reads its config file and is asked on every call.
+type FlagValue = boolean | string;
+
+interface FlagContext {
+  userId?: string;
+  tenantId?: string;
+}
+
+interface FlagDefinition {
+  default: FlagValue;                          // Safe value - also what the kill switch falls back to
+  variants?: FlagValue[];                      // Allowed values for multivariate flags
+  users?: Record<string, FlagValue>;           // Per-user targeting
+  tenants?: Record<string, FlagValue>;         // Per-tenant targeting
+  rollout?: { percentage: number; value: FlagValue }; // Gradual rollout by user/tenant bucket
+  killed?: boolean;                            // Kill switch from the config file
+}
+
+// Flags live in flags.json (edit it and the change is live within a second) - e.g. roll PayPal out
+// to 10% of users with "rollout": { "percentage": 10, "value": "paypal" }
+class FeatureFlagService {
+  private flags: Record<string, FlagDefinition> = {};
+  private killedFlags = new Set<string>();
+  private watching = false;
+
+  // Nothing is read or watched until the first flag lookup - importing this file stays side-effect free
+  constructor(private configPath: string, private reloadIntervalMs: number = 1000) {}
+
+  isEnabled(flag: string, context: FlagContext = {}): boolean {
+    return this.getVariant<FlagValue>(flag, false, context) === true;
+  }
+
+  getVariant<T extends FlagValue>(flag: string, fallback: T, context: FlagContext = {}): T {
+    this.watch();
+    const definition = this.flags[flag];
+    if (!definition) return fallback;
+
+    // Kill switch beats everything else
+    if (definition.killed || this.killedFlags.has(flag)) {
+      return definition.default as T;
+    }
+
+    // Explicit targeting beats rollout
+    if (context.userId && definition.users?.[context.userId] !== undefined) {
+      return definition.users[context.userId] as T;
+    }
+    if (context.tenantId && definition.tenants?.[context.tenantId] !== undefined) {
+      return definition.tenants[context.tenantId] as T;
+    }
+
+    const bucketKey = context.userId || context.tenantId;
+    if (definition.rollout && bucketKey && this.bucket(flag, bucketKey) < definition.rollout.percentage) {
+      return definition.rollout.value as T;
+    }
+
+    return definition.default as T;
+  }
+
+  // 🚨 Emergency kill switch: force a flag back to its safe default right now.
+  // Written to flags.json too, so a restart or every other instance reading the file stays killed
+  kill(flag: string): void {
+    this.killedFlags.add(flag); // Effective in this process even if the file can't be written
+    this.persistKilled(flag, true);
+    console.warn(`🚨 Flag ${flag} killed - serving default value`);
+  }
+
+  revive(flag: string): void {
+    this.killedFlags.delete(flag);
+    this.persistKilled(flag, false);
+    console.log(`✅ Flag ${flag} revived`);
+  }
+
+  stop(): void {
+    if (this.watching) unwatchFile(this.configPath);
+    this.watching = false;
+  }
+
+  private watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+    this.reload();
+    // Hot reload: pick up edits to the file without restarting. unref() - a flag watcher
+    // alone must not keep the process running
+    watchFile(this.configPath, { interval: this.reloadIntervalMs }, () => this.reload()).unref();
+  }
+
+  private reload(): void {
+    try {
+      const flags: Record<string, FlagDefinition> = JSON.parse(readFileSync(this.configPath, 'utf8'));
+
+      // All or nothing: one bad flag keeps the whole last good config in place
+      for (const [name, definition] of Object.entries(flags)) {
+        validateFlag(name, definition);
+      }
+
+      this.flags = flags;
+    } catch (error) {
+      // Bad edit or missing file? Keep serving the last good config
+      console.warn(`⚠️ Could not load flags from ${this.configPath}: ${error.message}`);
+    }
+  }
+
+  private persistKilled(flag: string, killed: boolean): void {
+    try {
+      const flags: Record<string, FlagDefinition> = JSON.parse(readFileSync(this.configPath, 'utf8'));
+      if (!flags[flag]) return;
+
+      if (killed) {
+        flags[flag].killed = true;
+      } else {
+        delete flags[flag].killed;
+      }
+      // Write-then-rename so the watcher never reads a half-written file
+      writeFileSync(`${this.configPath}.tmp`, JSON.stringify(flags, null, 2) + '\n');
+      renameSync(`${this.configPath}.tmp`, this.configPath);
+      this.reload();
+    } catch (error) {
+      console.error(`❌ Could not save kill switch for ${flag} to ${this.configPath}: ${error.message} - applies to this process only`);
+    }
+  }
+
+  private bucket(flag: string, key: string): number {
+    // Stable 0-99 bucket so a user stays in (or out of) a rollout
+    let hash = 0;
+    for (const char of `${flag}:${key}`) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return hash % 100;
+  }
+}
+
+function isFlagValue(value: unknown): value is FlagValue {
+  return typeof value === 'boolean' || typeof value === 'string';
+}
+
+function validateFlag(name: string, definition: FlagDefinition): void {
+  const checkValue = (value: unknown, where: string) => {
+    if (!isFlagValue(value)) {
+      throw new Error(`Flag ${name} ${where} must be a boolean or string, got ${JSON.stringify(value)}`);
+    }
+    if (definition.variants && !definition.variants.includes(value)) {
+      throw new Error(`Flag ${name} ${where} ${JSON.stringify(value)} is not one of its variants`);
+    }
+  };
+
+  if (definition.variants !== undefined && (!Array.isArray(definition.variants) || !definition.variants.every(isFlagValue))) {
+    throw new Error(`Flag ${name} variants must be a list of booleans or strings`);
+  }
+  checkValue(definition.default, 'default');
+  for (const [userId, value] of Object.entries(definition.users || {})) checkValue(value, `user ${userId}`);
+  for (const [tenantId, value] of Object.entries(definition.tenants || {})) checkValue(value, `tenant ${tenantId}`);
+
+  if (definition.rollout) {
+    const { percentage, value } = definition.rollout;
+    if (typeof percentage !== 'number' || !(percentage >= 0 && percentage <= 100)) {
+      throw new Error(`Flag ${name} rollout percentage must be between 0 and 100, got ${JSON.stringify(percentage)}`);
+    }
+    checkValue(value, 'rollout value');
+  }
+  if (definition.killed !== undefined && typeof definition.killed !== 'boolean') {
+    throw new Error(`Flag ${name} killed must be true or false`);
+  }
+}
+
+// ✅ EVEN BETTER: Versioned runtime config with one-click rollback
+// Every change is a new immutable version with who/why attached,
+// so "undo" is picking an old version - not remembering what the value used to be.
+// Which payment provider to use is NOT in here: that's the 'payment-provider' flag, one source of truth.
+export interface RuntimeConfig {
+  'plans.prices': { basic: number; pro: number; enterprise: number };  // dollars per month
+  'llm.maxConcurrent': number;                                        // OpenAI calls per batch
+}
+
+export type ConfigKey = keyof RuntimeConfig;
+
+// Checked before a version is created - a bad value never becomes current, so there's nothing to roll back.
+// Values come from admin tools and JSON too, so types alone aren't enough
+const CONFIG_VALIDATORS: { [K in ConfigKey]: (value: unknown) => string | null } = {
+  'plans.prices': prices => {
+    const valid = typeof prices === 'object' && prices !== null &&
+      ['basic', 'pro', 'enterprise'].every(plan => {
+        const price = (prices as Record<string, unknown>)[plan];
+        return typeof price === 'number' && Number.isFinite(price) && price >= 0;
+      });
+    return valid ? null : 'needs a price >= 0 for basic, pro and enterprise';
+  },
+  // 0 would stall the LLM queue forever; a huge number defeats the point of the limit
+  'llm.maxConcurrent': max => (typeof max === 'number' && Number.isInteger(max) && max >= 1 && max <= 100
+    ? null
+    : 'must be a whole number from 1 to 100')
+};
+
+export class InvalidConfigError extends Error {
+  constructor(public readonly key: string, problem: string, value: unknown) {
+    super(`Config ${key} ${problem} (got ${JSON.stringify(value)})`);
+    this.name = 'InvalidConfigError';
+  }
+}
+
+interface ConfigVersion {
+  version: number;
+  values: Readonly<RuntimeConfig>;
+  changedBy: string;
+  reason: string;
+  changedAt: Date;
+  rolledBackTo?: number;
+}
+
+// Object.freeze only covers the top level - nested values like plans.prices need it too
+function deepFreeze<T>(value: T): T {
+  if (typeof value === 'object' && value !== null && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const nested of Object.values(value)) deepFreeze(nested);
+  }
+  return value;
+}
+
+type ConfigChange = { [K in ConfigKey]: { key: K; before: RuntimeConfig[K]; after: RuntimeConfig[K] } }[ConfigKey];
+
+export class VersionedConfigStore {
+  private versions: ConfigVersion[] = [];
+
+  constructor(initialValues: RuntimeConfig, createdBy: string = 'system') {
+    this.append(this.validate({ ...initialValues }), createdBy, 'Initial config');
+  }
+
+  get<K extends ConfigKey>(key: K): RuntimeConfig[K] {
+    return this.current().values[key];
+  }
+
+  current(): ConfigVersion {
+    return this.versions[this.versions.length - 1];
+  }
+
+  set(changes: Partial<RuntimeConfig>, changedBy: string, reason: string): ConfigVersion {
+    const values = this.validate({ ...this.current().values, ...changes });
+    const version = this.append(values, changedBy, reason);
+    console.log(`⚙️ Config v${version.version} by ${changedBy}: ${reason}`);
+    return version;
+  }
+
+  // One-click rollback: the whole old snapshot becomes current in one step
+  rollback(toVersion: number, changedBy: string, reason: string): ConfigVersion {
+    const target = this.getVersion(toVersion);
+    const version = this.append({ ...target.values }, changedBy, reason, toVersion);
+    console.warn(`↩️ Config rolled back to v${toVersion} (now v${version.version}) by ${changedBy}: ${reason}`);
+    return version;
+  }
+
+  history(): ConfigVersion[] {
+    return [...this.versions];
+  }
+
+  diff(fromVersion: number, toVersion: number = this.current().version): ConfigChange[] {
+    const before = this.getVersion(fromVersion).values;
+    const after = this.getVersion(toVersion).values;
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort() as ConfigKey[];
+
+    return keys
+      .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map(key => ({ key, before: before[key], after: after[key] }) as ConfigChange);
+  }
+
+  private validate(values: RuntimeConfig): RuntimeConfig {
+    for (const [key, check] of Object.entries(CONFIG_VALIDATORS)) {
+      const value = values[key as ConfigKey];
+      const problem = check(value);
+      if (problem) throw new InvalidConfigError(key, problem, value);
+    }
+    return values;
+  }
+
+  private getVersion(version: number): ConfigVersion {
+    const found = this.versions.find(v => v.version === version);
+    if (!found) throw new Error(`Config version ${version} not found`);
+    return found;
+  }
+
+  private append(values: RuntimeConfig, changedBy: string, reason: string, rolledBackTo?: number): ConfigVersion {
+    const version: ConfigVersion = Object.freeze({
+      version: this.versions.length + 1,
+      // Own copy: the caller's objects (or an old version's) can't change this snapshot later
+      values: deepFreeze(structuredClone(values)),
+      changedBy,
+      reason,
+      changedAt: new Date(),
+      rolledBackTo
+    });
+    // Single push = readers see either the old snapshot or the new one, never half of each
+    this.versions.push(version);
+    return version;
+  }
+}
+
 class GoodPaymentService {
-  constructor(private provider: PaymentProvider) {}
+  constructor(
+    private flags: FeatureFlagService,
+    private providers: Record<string, PaymentProvider>,
+    private idempotency: IdempotencyGuard = new IdempotencyGuard(),
+    private metricsRegistry: MetricsRegistry = metrics
+  ) {}
 
-  async chargeUser(amount: number, cardToken: string): Promise<string> {
-    return this.provider.chargeUser(amount, cardToken);
+  private instrumentedProviders = new Map<string, (amount: number, cardToken: string) => Promise<string>>();
+
+  async chargeUser(amount: number, cardToken: string, idempotencyKey: string, context: FlagContext = {}): Promise<string> {
+    // A retried request with the same key gets the original charge ID back - never a second charge
+    return this.idempotency.run(`charge:${idempotencyKey}`, { amount, cardToken }, async () => {
+      // Resolved on every call, so flipping the flag takes effect immediately
+      const providerName = this.flags.getVariant<string>('payment-provider', 'stripe', context);
+      const name = this.providers[providerName] ? providerName : 'stripe';
+      return this.chargeVia(name)(amount, cardToken);
+    });
+  }
+
+  // Metrics labelled by provider, so a canary of the new provider can be compared to the old one
+  private chargeVia(name: string): (amount: number, cardToken: string) => Promise<string> {
+    if (!this.instrumentedProviders.has(name)) {
+      const provider = this.providers[name];
+      this.instrumentedProviders.set(name, instrument(this.metricsRegistry, 'payment_provider_charge',
+        (amount: number, cardToken: string) => provider.chargeUser(amount, cardToken), { provider: name }));
+    }
+    return this.instrumentedProviders.get(name)!;
   }
 }
 
-// Easy to switch providers!
-const paymentService = new GoodPaymentService(
-  process.env.PAYMENT_PROVIDER === 'paypal'
-    ? new PayPalProvider()
-    : new StripeProvider()
-);
+// Easy to switch providers - edit flags.json or call flags.kill('payment-provider')!
+const flags = new FeatureFlagService('./flags.json');
+const runtimeConfig = new VersionedConfigStore({
+  'plans.prices': { basic: 10, pro: 50, enterprise: 200 },
+  'llm.maxConcurrent': 5
+});
+const paymentService = new GoodPaymentService(flags, {
+  stripe: new StripeProvider(),
+  paypal: new PayPalProvider()
+});
+
+// Canary: roll PayPal out to 5% in flags.json, compare it to Stripe, and kill the flag if it's worse
+const paymentProviderCanary = new CanaryAnalyzer('payment_provider_charge', {
+  baseline: 'stripe',
+  canary: 'paypal',
+  cohortOf: observation => observation.labels.provider
+}).attach(metrics);
+paymentProviderCanary.onFail(verdict => {
+  console.error(`🐤 PayPal canary failed: ${verdict.reasons.join('; ')}`);
+  flags.kill('payment-provider'); // everyone back on the default provider - saved to flags.json, so restarts stay there
+});
+// paymentProviderCanary.start();
+
+// PayPal acting up? Switch, look at what changed, and undo with one call:
+// runtimeConfig.set({ 'llm.maxConcurrent': 2 }, 'alice', 'OpenAI rate limiting us, INC-123');
+// runtimeConfig.diff(1);      // [{ key: 'llm.maxConcurrent', before: 5, after: 2 }]
+// runtimeConfig.rollback(1, 'alice', 'OpenAI recovered');
 
 // Another simple example: Database choice
 // ❌ BAD: Hard-coded to PostgreSQL
@@ -67,6 +410,7 @@ class BadUserService {
 // ✅ GOOD: Can switch databases easily
 interface Database {
   findUser(id: string): Promise<User>;
+  saveUser(user: User): Promise<void>;
 }
 
 class PostgresDB implements Database {
@@ -75,6 +419,14 @@ class PostgresDB implements Database {
     const result = await client.query('SELECT * FROM users WHERE id = $1', [id]);
     return result.rows[0];
   }
+
+  async saveUser(user: User): Promise<void> {
+    const client = new PostgresClient();
+    await client.query(
+      'INSERT INTO users (id, email) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET email = $2',
+      [user.id, user.email]
+    );
+  }
 }
 
 class MongoDBDatabase implements Database {
@@ -82,24 +434,447 @@ class MongoDBDatabase implements Database {
     const db = new MongoClient();
     return await db.collection('users').findOne({ _id: id });
   }
+
+  async saveUser(user: User): Promise<void> {
+    const db = new MongoClient();
+    await db.collection('users').updateOne({ _id: user.id }, { $set: user }, { upsert: true });
+  }
+}
+
+// ✅ EVEN BETTER: Dual-run the new implementation before cutting over
+// Reads go to both, callers only ever see the primary result, and every
+// disagreement lands in a report you can check before flipping the flag.
+interface ShadowComparison {
+  operation: string;
+  key: string;
+  match: boolean;
+  primaryMs?: number;  // unset for write checks - there's no primary call to compare with
+  shadowMs: number;
+  shadowError?: string;
+  at: Date;
+}
+
+interface ShadowReport {
+  comparisons: number;
+  mismatches: number;
+  shadowErrors: number;
+  avgLatencyDeltaMs: number;           // shadow minus primary over timed reads; positive = shadow is slower
+  pendingWriteVerifications: number;
+  droppedWriteVerifications: number;   // oldest pending writes dropped to stay under maxPendingWrites
+  recentProblems: ShadowComparison[];  // Last mismatches/errors, newest first
+}
+
+// 'primary-only' never touches the shadow on writes - verify later once data is synced.
+// 'dual' writes to both (only for shadows that are safe to write to).
+type ShadowWriteMode = 'primary-only' | 'dual';
+
+class DualRunDatabase implements Database {
+  private comparisons = 0;
+  private mismatches = 0;
+  private shadowErrors = 0;
+  private totalLatencyDeltaMs = 0;
+  private timedComparisons = 0;
+  private recentProblems: ShadowComparison[] = [];
+  private pendingWrites = new Map<string, User>();
+  private droppedWrites = 0;
+
+  constructor(
+    private primary: Database,
+    private shadow: Database,
+    private writeMode: ShadowWriteMode = 'primary-only',
+    private maxRecentProblems: number = 100,
+    private maxPendingWrites: number = 10_000
+  ) {}
+
+  async findUser(id: string): Promise<User> {
+    const start = Date.now();
+    const shadowResult = this.shadow.findUser(id).then(
+      user => ({ user, ms: Date.now() - start }),
+      error => ({ error, ms: Date.now() - start })
+    );
+
+    const user = await this.primary.findUser(id);
+    const primaryMs = Date.now() - start;
+
+    // Compare in the background - the shadow never slows down or breaks the caller
+    shadowResult.then(shadow => {
+      if ('error' in shadow) {
+        this.record({ operation: 'findUser', key: id, match: false, primaryMs, shadowMs: shadow.ms, shadowError: String(shadow.error?.message || shadow.error), at: new Date() });
+      } else {
+        this.record({ operation: 'findUser', key: id, match: sameData(user, shadow.user), primaryMs, shadowMs: shadow.ms, at: new Date() });
+      }
+    });
+
+    return user;
+  }
+
+  async saveUser(user: User): Promise<void> {
+    await this.primary.saveUser(user);
+
+    if (this.writeMode === 'primary-only') {
+      // Remember what we wrote; check the shadow once the sync/backfill catches up
+      this.pendingWrites.delete(user.id); // re-insert so the Map stays in write order
+      this.pendingWrites.set(user.id, user);
+
+      // Nobody is calling verifyPendingWrites() - don't grow forever, drop the oldest
+      for (const id of this.pendingWrites.keys()) {
+        if (this.pendingWrites.size <= this.maxPendingWrites) break;
+        this.pendingWrites.delete(id);
+        this.droppedWrites++;
+      }
+      return;
+    }
+
+    const start = Date.now();
+    this.shadow.saveUser(user).catch(error => {
+      this.record({ operation: 'saveUser', key: user.id, match: false, shadowMs: Date.now() - start, shadowError: error.message, at: new Date() });
+    });
+  }
+
+  // Run after the shadow has been synced: did it end up with what the primary wrote?
+  async verifyPendingWrites(): Promise<number> {
+    let verified = 0;
+
+    for (const [id, expected] of this.pendingWrites) {
+      const start = Date.now();
+      try {
+        const actual = await this.shadow.findUser(id);
+        this.record({ operation: 'verifyWrite', key: id, match: sameData(expected, actual), shadowMs: Date.now() - start, at: new Date() });
+      } catch (error) {
+        this.record({ operation: 'verifyWrite', key: id, match: false, shadowMs: Date.now() - start, shadowError: error.message, at: new Date() });
+      }
+      this.pendingWrites.delete(id);
+      verified++;
+    }
+
+    return verified;
+  }
+
+  getReport(): ShadowReport {
+    return {
+      comparisons: this.comparisons,
+      mismatches: this.mismatches,
+      shadowErrors: this.shadowErrors,
+      avgLatencyDeltaMs: this.timedComparisons ? this.totalLatencyDeltaMs / this.timedComparisons : 0,
+      pendingWriteVerifications: this.pendingWrites.size,
+      droppedWriteVerifications: this.droppedWrites,
+      recentProblems: [...this.recentProblems]
+    };
+  }
+
+  private record(comparison: ShadowComparison): void {
+    this.comparisons++;
+    if (comparison.primaryMs !== undefined) {
+      this.timedComparisons++;
+      this.totalLatencyDeltaMs += comparison.shadowMs - comparison.primaryMs;
+    }
+
+    if (comparison.shadowError) {
+      this.shadowErrors++;
+    } else if (!comparison.match) {
+      this.mismatches++;
+    } else {
+      return;
+    }
+
+    console.warn(`🔍 Shadow ${comparison.operation} ${comparison.key}: ${comparison.shadowError || 'result mismatch'}`);
+    this.recentProblems.unshift(comparison);
+    this.recentProblems.length = Math.min(this.recentProblems.length, this.maxRecentProblems);
+  }
+}
+
+// Key order and Mongo's _id shouldn't count as a mismatch
+function sameData(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      return Object.keys(record)
+        .filter(key => key !== '_id')
+        .sort()
+        .reduce<Record<string, unknown>>((out, key) => ({ ...out, [key]: normalize(record[key]) }), {});
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
 }
 
 class GoodUserService {
-  constructor(private db: Database) {}
+  constructor(
+    private flags: FeatureFlagService,
+    private databases: Record<string, Database>
+  ) {}
 
   async getUser(id: string): Promise<User> {
-    return this.db.findUser(id);
+    return this.pickDatabase(id).findUser(id);
+  }
+
+  async saveUser(user: User): Promise<void> {
+    return this.pickDatabase(user.id).saveUser(user);
+  }
+
+  private pickDatabase(userId: string): Database {
+    const dbName = this.flags.getVariant('user-database', 'postgres', { userId });
+    return this.databases[dbName] || this.databases.postgres;
   }
 }
 
-// Switch database by changing config
-const userService = new GoodUserService(
-  process.env.DB_TYPE === 'mongo'
-    ? new MongoDBDatabase()
-    : new PostgresDB()
-);
+// Switch database by changing the flag - no redeploy
+// Migration path: 'postgres' → 'postgres-shadow-mongo' (check getReport()) → 'mongo'
+const postgresDB = new PostgresDB();
+const mongoDB = new MongoDBDatabase();
+const userService = new GoodUserService(flags, {
+  postgres: postgresDB,
+  'postgres-shadow-mongo': new DualRunDatabase(postgresDB, mongoDB),
+  mongo: mongoDB
+});
+
+// Another example: Database migrations
+// ❌ BAD: One migration that renames/drops in place
+// ALTER TABLE users RENAME COLUMN balance TO balance_cents;
+// Old code still running during the deploy reads `balance` → errors until the rollout finishes,
+// and rolling the code back doesn't bring the column back.
+
+// ✅ GOOD: Expand/contract migrations
+// Expand = additive only (new tables/columns, backfills), safe while old code runs.
+// Contract = remove the old stuff, only once no running code reads it.
+// The database must roll back DDL inside a transaction (Postgres and SQLite do; MySQL doesn't -
+// there a failed expand leaves its earlier statements behind and needs a manual cleanup)
+// Migrations stick to SQL both Postgres and SQLite run, with $1-style parameters;
+// the few things that differ (auto-increment ids) are looked up per dialect
+export type SqlDialect = 'postgres' | 'sqlite';
+
+export interface SqlExecutor {
+  readonly dialect?: SqlDialect; // default postgres
+  query(sql: string, params?: any[]): Promise<any[]>;
+}
+
+export type MigrationSql = string | ((dialect: SqlDialect) => string);
+
+export interface Migration {
+  version: number;
+  name: string;
+  expand: MigrationSql[];
+  rollbackExpand: MigrationSql[];
+  contract?: MigrationSql[];
+  contractSafeFromAppVersion?: number; // Oldest app build that no longer reads what contract removes - required with contract
+}
+
+export type MigrationPhase = 'pending' | 'expanded' | 'contracted';
+
+export class MigrationRunner {
+  private trackingTableReady = false;
+
+  constructor(
+    private db: SqlExecutor,
+    private migrations: Migration[],
+    private getRunningAppVersions: () => Promise<number[]>
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  async status(): Promise<Array<{ version: number; name: string; phase: MigrationPhase }>> {
+    const applied = await this.appliedPhases();
+    return this.migrations.map(m => ({
+      version: m.version,
+      name: m.name,
+      phase: applied.get(m.version) || 'pending'
+    }));
+  }
+
+  // Safe to run before deploying new code
+  async expand(): Promise<number[]> {
+    const applied = await this.appliedPhases();
+    const expanded: number[] = [];
+
+    for (const migration of this.migrations) {
+      if (applied.has(migration.version)) continue;
+
+      await this.inTransaction([
+        ...this.statements(migration.expand),
+        {
+          sql: `INSERT INTO schema_migrations (version, name, phase, applied_at) VALUES ($1, $2, 'expanded', $3)`,
+          params: [migration.version, migration.name, new Date().toISOString()]
+        }
+      ]);
+
+      console.log(`⬆️ Expanded migration ${migration.version}: ${migration.name}`);
+      expanded.push(migration.version);
+    }
+
+    return expanded;
+  }
+
+  // Run only after every instance is on code that no longer needs the old shape
+  async contract(version: number): Promise<void> {
+    const migration = this.migrations.find(m => m.version === version);
+    if (!migration) throw new Error(`Unknown migration ${version}`);
+
+    const phase = (await this.appliedPhases()).get(version);
+    if (phase !== 'expanded') {
+      throw new Error(`Migration ${version} is ${phase || 'pending'}, expected expanded`);
+    }
+
+    // Deny by default: contract destroys data, so "we don't know who's running" means no
+    if (migration.contract?.length && migration.contractSafeFromAppVersion === undefined) {
+      throw new Error(`Refusing to contract migration ${version}: it doesn't declare contractSafeFromAppVersion`);
+    }
+    const runningVersions = await this.getRunningAppVersions();
+    if (runningVersions.length === 0) {
+      throw new Error(`Refusing to contract migration ${version}: no running app versions reported`);
+    }
+
+    const oldestRunning = Math.min(...runningVersions);
+    if (migration.contractSafeFromAppVersion !== undefined && oldestRunning < migration.contractSafeFromAppVersion) {
+      throw new Error(
+        `Refusing to contract migration ${version}: app version ${oldestRunning} is still running ` +
+        `and may read what it removes (needs >= ${migration.contractSafeFromAppVersion})`
+      );
+    }
+
+    await this.inTransaction([
+      ...this.statements(migration.contract || []),
+      { sql: `UPDATE schema_migrations SET phase = 'contracted' WHERE version = $1`, params: [version] }
+    ]);
+
+    console.log(`⬇️ Contracted migration ${version}: ${migration.name}`);
+  }
+
+  // Undo the most recent expand - contract steps are one-way, so those can't be rolled back
+  async rollbackLastExpand(): Promise<number | null> {
+    const applied = await this.appliedPhases();
+    const last = [...this.migrations].reverse().find(m => applied.has(m.version));
+    if (!last) return null;
+
+    if (applied.get(last.version) === 'contracted') {
+      throw new Error(`Migration ${last.version} is already contracted and cannot be rolled back`);
+    }
+
+    await this.inTransaction([
+      ...this.statements(last.rollbackExpand),
+      { sql: `DELETE FROM schema_migrations WHERE version = $1`, params: [last.version] }
+    ]);
+
+    console.log(`↩️ Rolled back migration ${last.version}: ${last.name}`);
+    return last.version;
+  }
+
+  private async appliedPhases(): Promise<Map<number, MigrationPhase>> {
+    if (!this.trackingTableReady) {
+      await this.db.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          phase TEXT NOT NULL,
+          applied_at TIMESTAMP NOT NULL
+        )
+      `);
+      this.trackingTableReady = true;
+    }
+    const rows = await this.db.query('SELECT version, phase FROM schema_migrations');
+    return new Map(rows.map(row => [Number(row.version), row.phase as MigrationPhase]));
+  }
+
+  private statements(sqls: MigrationSql[]): Array<{ sql: string }> {
+    const dialect = this.db.dialect || 'postgres';
+    return sqls.map(sql => ({ sql: typeof sql === 'string' ? sql : sql(dialect) }));
+  }
+
+  private async inTransaction(statements: Array<{ sql: string; params?: any[] }>): Promise<void> {
+    await this.db.query('BEGIN');
+    try {
+      for (const statement of statements) {
+        await this.db.query(statement.sql, statement.params || []);
+      }
+      await this.db.query('COMMIT');
+    } catch (error) {
+      await this.db.query('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+const AUTO_ID: Record<SqlDialect, string> = {
+  postgres: 'SERIAL PRIMARY KEY',
+  sqlite: 'INTEGER PRIMARY KEY' // SQLite's rowid alias - only this exact spelling auto-increments
+};
+
+// The schema behind the SQL in 01, 06 and 10
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create users',
+    expand: [`
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        plan TEXT NOT NULL DEFAULT 'basic',
+        balance NUMERIC NOT NULL DEFAULT 0,
+        queries_used INTEGER NOT NULL DEFAULT 0,
+        query_limit INTEGER NOT NULL DEFAULT 100
+      )
+    `],
+    rollbackExpand: ['DROP TABLE users']
+  },
+  {
+    version: 2,
+    name: 'create user_queries',
+    expand: [dialect => `
+      CREATE TABLE user_queries (
+        id ${AUTO_ID[dialect]},
+        user_id TEXT NOT NULL REFERENCES users(id),
+        query_text TEXT NOT NULL,
+        result_text TEXT,
+        created_at TIMESTAMP NOT NULL
+      )
+    `],
+    rollbackExpand: ['DROP TABLE user_queries']
+  },
+  {
+    version: 3,
+    name: 'create portfolio_holdings',
+    expand: [`
+      CREATE TABLE portfolio_holdings (
+        user_id TEXT NOT NULL REFERENCES users(id),
+        symbol TEXT NOT NULL,
+        quantity NUMERIC NOT NULL DEFAULT 0,
+        PRIMARY KEY (user_id, symbol)
+      )
+    `],
+    rollbackExpand: ['DROP TABLE portfolio_holdings']
+  },
+  {
+    version: 4,
+    name: 'create orders',
+    expand: [
+      dialect => `CREATE TABLE orders (id ${AUTO_ID[dialect]}, user_id TEXT NOT NULL REFERENCES users(id), created_at TIMESTAMP NOT NULL)`,
+      `CREATE TABLE order_items (order_id INTEGER NOT NULL REFERENCES orders(id), product_id TEXT NOT NULL, quantity INTEGER NOT NULL)`
+    ],
+    rollbackExpand: ['DROP TABLE order_items', 'DROP TABLE orders']
+  },
+  {
+    // The rename from the BAD example, done safely:
+    // expand adds + backfills, app build 42 switches reads to balance_cents, then contract drops balance
+    version: 5,
+    name: 'users.balance -> users.balance_cents',
+    expand: [
+      'ALTER TABLE users ADD COLUMN balance_cents BIGINT',
+      'UPDATE users SET balance_cents = CAST(balance * 100 AS BIGINT)'
+    ],
+    rollbackExpand: ['ALTER TABLE users DROP COLUMN balance_cents'],
+    contract: ['ALTER TABLE users DROP COLUMN balance'],
+    contractSafeFromAppVersion: 42
+  }
+];
+
+// Deploy flow:
+// 1. await runner.expand()              - before new code ships
+// 2. deploy app build 42                - reads/writes balance_cents
+// 3. await runner.contract(5)           - refuses until no build < 42 is running
+// Something wrong after step 1? await runner.rollbackLastExpand()
 
 // Key takeaway: Use interfaces to make decisions reversible!
+// Put a flag in front of the choice so reversing it is a config edit, not a deploy.
 interface User {
   id: string;
   email: string;
@@ -0,0 +1,71 @@
+// Outbox worker and file store tests - temp directories, no network
+// Run: node --test (after compiling) or npx tsx --test 03-contain-blast-radius.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Bulkhead, FileOutboxStore, Outbox } from './03-contain-blast-radius';
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), 'outbox-'));
+}
+
+test('a hung handler times out without blocking other message types', async () => {
+  const dir = tempDir();
+  const store = new FileOutboxStore(join(dir, 'outbox.json'));
+  try {
+    const delivered: string[] = [];
+    const outbox = new Outbox(store, {
+      'newsletter': () => new Promise<void>(() => {}), // never settles
+      'welcome-email': async ({ email }) => { delivered.push(email); }
+    }, { handlerTimeoutMs: 50, bulkheads: { 'newsletter': new Bulkhead('newsletter', 1, 1, 50) } });
+
+    await outbox.enqueue('newsletter', { email: 'a@example.com' });
+    await outbox.enqueue('welcome-email', { email: 'a@example.com' });
+
+    assert.equal(await outbox.processDue(), 1);
+    assert.deepEqual(delivered, ['a@example.com']);
+
+    // The next tick isn't locked out by the hung one
+    const [pending] = await store.list('pending');
+    assert.equal(pending.type, 'newsletter');
+    assert.match(pending.lastError!, /Timed out/);
+    assert.equal(await outbox.processDue(pending.nextAttemptAt), 0);
+    assert.equal((await store.list('pending'))[0].attempts, 2);
+  } finally {
+    await store.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a lock left behind under our own PID is taken over, a live second store is refused', async () => {
+  const dir = tempDir();
+  const path = join(dir, 'outbox.json');
+  // What a container restart leaves behind: the old PID 1 is the new PID 1
+  writeFileSync(`${path}.lock`, String(process.pid));
+  const store = new FileOutboxStore(path);
+  try {
+    assert.deepEqual(await store.list('pending'), []);
+    await assert.rejects(new FileOutboxStore(path).list('pending'), /already owned by this process/);
+  } finally {
+    await store.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('dismiss drops a queued retry that is no longer needed', async () => {
+  const dir = tempDir();
+  const store = new FileOutboxStore(join(dir, 'outbox.json'));
+  try {
+    const outbox = new Outbox(store, { 'welcome-email': async () => {} });
+    const id = await outbox.enqueue('welcome-email', { email: 'a@example.com' }, 'Timed out after 10000ms');
+
+    await outbox.dismiss(id);
+
+    assert.deepEqual(await store.list('pending'), []);
+  } finally {
+    await store.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -1,5 +1,12 @@
 // Principle 3: Contain the Blast Radius
 
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+// Type-only: 04 imports this module at runtime, so a value import here would be a cycle
+import type { Counter, MetricsRegistry } from './04-observability-first';
+
 // ❌ BAD: One failure breaks everything
 class BadUserRegistration {
   async registerUser(email: string, password: string): Promise<void> {
@@ -18,54 +25,709 @@ class BadUserRegistration {
   private async notifyAdmins(userId: string) { /* ... */ }
 }
 
+// ✅ GOOD: Say exactly what was degraded - in a shape code can read
+// Free-text warnings are for humans; callers and dashboards need codes.
+export type DegradationCode =
+  | 'DEFERRED'        // Will happen later (outbox), not now
+  | 'SOURCE_FAILED'   // A dependency failed and a fallback answered instead
+  | 'SERVED_STALE'    // Value came from a cache, see freshness
+  | 'UNAVAILABLE';    // No value at all
+
+export interface Degradation {
+  capability: string;  // e.g. 'welcome-email', 'price:coingecko'
+  code: DegradationCode;
+  detail?: string;
+}
+
+export interface Degraded<T> {
+  value: T;
+  degradations: Degradation[];  // Empty = fully healthy
+  fallback: string | null;      // Which fallback produced the value; null = primary path
+  freshness: { asOf: Date | null; ageMs: number | null };
+}
+
+export function isDegraded(result: Degraded<unknown>): boolean {
+  return result.degradations.length > 0;
+}
+
+// Count degradations by capability + code so they can be graphed and alerted on
+// Pass a registry to export them as degradations_total{capability,code} on /metrics
+export class DegradationCounter {
+  private counts = new Map<string, number>();
+  private exported?: Counter;
+
+  constructor(registry?: MetricsRegistry) {
+    this.exported = registry?.counter('degradations_total', 'Degraded results by capability and code', {
+      labelNames: ['capability', 'code']
+    });
+  }
+
+  record<T>(result: Degraded<T>): Degraded<T> {
+    for (const { capability, code } of result.degradations) {
+      const key = `${capability}|${code}`;
+      this.counts.set(key, (this.counts.get(key) || 0) + 1);
+      this.exported?.inc({ capability, code });
+    }
+    return result;
+  }
+
+  snapshot(): Array<{ capability: string; code: DegradationCode; count: number }> {
+    return [...this.counts].map(([key, count]) => {
+      const [capability, code] = key.split('|');
+      return { capability, code: code as DegradationCode, count };
+    });
+  }
+}
+
 // ✅ GOOD: Core operation succeeds even if extras fail
 class GoodUserRegistration {
-  async registerUser(email: string, password: string): Promise<{ success: boolean; warnings: string[] }> {
-    const warnings: string[] = [];
+  // Each dependency gets its own small pool: a hanging newsletter API can only tie up newsletter slots
+  private bulkheads: Record<string, Bulkhead> = {
+    'welcome-email': new Bulkhead('welcome-email', 5, 100, 10000),
+    'newsletter': new Bulkhead('newsletter', 2, 50, 5000),
+    'analytics': new Bulkhead('analytics', 10, 500, 2000),
+    'admin-notify': new Bulkhead('admin-notify', 1, 20, 5000)
+  };
 
-    // Core operation - MUST succeed
-    const user = await this.createUser(email, password);
+  // Anything that fails or can't start now is persisted and retried by the outbox worker
+  readonly outbox: Outbox;
+  private runningExtras = new Map<string, Promise<Degradation[]>>();
+  private degradationCounter: DegradationCounter;
+
+  // The owner of the outbox file starts the worker: registration.outbox.start()
+  // No default registry: 04 imports this file, so the shared `metrics` has to be passed in
+  constructor(
+    outboxStore: OutboxStore,
+    metricsRegistry: MetricsRegistry,
+    private idempotency: IdempotencyGuard = new IdempotencyGuard()
+  ) {
+    this.degradationCounter = new DegradationCounter(metricsRegistry);
+    // Retries go through the same bulkheads as first attempts - a hung newsletter API stays contained
+    this.outbox = new Outbox(outboxStore, {
+      'welcome-email': ({ email }) => this.sendWelcomeEmail(email),
+      'newsletter': ({ email }) => this.addToNewsletter(email),
+      'analytics': ({ userId }) => this.trackAnalytics(userId),
+      'admin-notify': ({ userId }) => this.notifyAdmins(userId)
+    }, { bulkheads: this.bulkheads });
+  }
+
+  // Client timed out and retried? Same key → same user, not a second account
+  // degradations only lists extras deferred up front - the rest are still running when this returns,
+  // and their failures show up in extrasSettled(userId)
+  async registerUser(email: string, password: string, idempotencyKey: string): Promise<Degraded<{ userId: string }>> {
+    // Fingerprint on the email only - a password has no business being hashed into a lookup table
+    return this.idempotency.run(`register:${idempotencyKey}`, { email }, async () => {
+      const degradations: Degradation[] = [];
+      const running: Array<Promise<Degradation | null>> = [];
+
+      // Core operation - MUST succeed
+      const user = await this.createUser(email, password);
+
+      // Extra operations - started in the background, registration doesn't wait for them
+      await this.doExtraStuff(email, user.id, degradations, running);
+      this.trackExtras(user.id, running);
+
+      return this.degradationCounter.record({
+        value: { userId: user.id },
+        degradations,
+        fallback: degradations.length > 0 ? 'outbox' : null,
+        freshness: { asOf: new Date(), ageMs: 0 }
+      });
+    });
+  }
+
+  // For callers that want the full picture (e.g. an admin "resend welcome email" button):
+  // what the extras still running after registerUser() returned ended up degraded to.
+  // Only tracked until they settle - after that the counter and the outbox have the record.
+  async extrasSettled(userId: string): Promise<Degradation[]> {
+    return this.runningExtras.get(userId) ?? [];
+  }
+
+  private trackExtras(userId: string, running: Array<Promise<Degradation | null>>): void {
+    const settled = Promise.all(running).then(results => results.filter((d): d is Degradation => d !== null));
+    this.runningExtras.set(userId, settled);
+    settled.then(() => {
+      if (this.runningExtras.get(userId) === settled) this.runningExtras.delete(userId);
+    });
+  }
+
+  private async doExtraStuff(email: string, userId: string, degradations: Degradation[], running: Array<Promise<Degradation | null>>): Promise<void> {
+    // Fire each extra into its own bulkhead; failures go to the outbox, never to the caller
+    await this.startExtra('welcome-email', { email }, degradations, running);
+    await this.startExtra('newsletter', { email }, degradations, running);
+    await this.startExtra('analytics', { userId }, degradations, running);
+    await this.startExtra('admin-notify', { userId }, degradations, running);
+  }
+
+  private async startExtra(type: string, payload: any, degradations: Degradation[], running: Array<Promise<Degradation | null>>): Promise<void> {
+    const bulkhead = this.bulkheads[type];
+
+    if (!bulkhead.hasCapacity()) {
+      bulkhead.recordRejection();
+      await this.outbox.enqueue(type, payload);
+      degradations.push({ capability: type, code: 'DEFERRED', detail: 'Too many pending - will retry later' });
+      return;
+    }
+
+    let delivery: Promise<void> | undefined;
+    running.push(bulkhead.run(signal => (delivery = this.outbox.handle(type, payload, signal))).then(() => null, async error => {
+      const id = await this.outbox.enqueue(type, payload, error.message);
+
+      // Timed out isn't necessarily failed - if the late attempt still gets through, drop the retry.
+      // The worker may beat us to it, so this is at-least-once: handlers must tolerate a duplicate
+      if (error instanceof TimeoutError && delivery) {
+        delivery.then(() => this.outbox.dismiss(id), () => undefined).catch(dismissError => {
+          console.warn(`⚠️ Could not drop queued ${type} retry ${id}: ${dismissError.message}`);
+        });
+      }
+
+      console.warn(`⚠️ ${type} failed: ${error.message} - queued for retry`);
+      return this.recordLater({ capability: type, code: 'DEFERRED', detail: error.message }, 'outbox');
+    }).catch(error => {
+      // Nobody awaits this chain - a failed enqueue must be logged, not become an unhandled rejection
+      console.error(`❌ ${type} failed and could not be queued for retry:`, error);
+      return this.recordLater({ capability: type, code: 'UNAVAILABLE', detail: `not queued: ${error.message}` }, null);
+    }));
+  }
+
+  private recordLater(degradation: Degradation, fallback: string | null): Degradation {
+    this.degradationCounter.record({
+      value: null,
+      degradations: [degradation],
+      fallback,
+      freshness: { asOf: null, ageMs: null }
+    });
+    return degradation;
+  }
+
+  getDegradationCounts() {
+    return this.degradationCounter.snapshot();
+  }
+
+  getBulkheadStats(): BulkheadStats[] {
+    return Object.values(this.bulkheads).map(bulkhead => bulkhead.getStats());
+  }
+
+  private async createUser(email: string, password: string) {
+    return { id: '123', email };
+  }
+  private async sendWelcomeEmail(email: string) { /* ... */ }
+  private async addToNewsletter(email: string) { /* ... */ }
+  private async trackAnalytics(userId: string) { /* ... */ }
+  private async notifyAdmins(userId: string) { /* ... */ }
+}
+
+// One store per outbox file, and the worker runs in the process that owns it:
+// const registration = new GoodUserRegistration(new FileOutboxStore('./outbox/registration.json'), metrics);
+// registration.outbox.start();
+
+// ✅ GOOD: Bulkheads - separate, bounded pools per dependency
+// Like watertight compartments on a ship: one flooded pool can't sink the rest.
+export class BulkheadRejectedError extends Error {
+  constructor(name: string) {
+    super(`Bulkhead ${name} is full - rejecting task`);
+    this.name = 'BulkheadRejectedError';
+  }
+}
+
+interface BulkheadStats {
+  name: string;
+  active: number;
+  queued: number;
+  rejected: number;
+  timedOut: number;
+}
+
+export class Bulkhead {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private rejected = 0;
+  private timedOut = 0;
 
-    // Extra operations - failures are contained
-    await this.doExtraStuff(email, user.id, warnings);
+  constructor(
+    private name: string,
+    private maxConcurrent: number,
+    private maxQueue: number,
+    private taskTimeoutMs: number
+  ) {}
 
-    return { success: true, warnings };
+  hasCapacity(): boolean {
+    return this.active < this.maxConcurrent || this.queue.length < this.maxQueue;
   }
 
-  private async doExtraStuff(email: string, userId: string, warnings: string[]): Promise<void> {
-    // Try each operation, but don't let failures break registration
+  // For callers that check hasCapacity() and send the work elsewhere - it's still shed load
+  recordRejection(): void {
+    this.rejected++;
+  }
+
+  async run<T>(task: AsyncCall<T>): Promise<T> {
+    if (!this.hasCapacity()) {
+      this.rejected++;
+      throw new BulkheadRejectedError(this.name);
+    }
+
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      // Wait for a finishing task to hand its slot straight to us
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+
+    const controller = new AbortController();
+    const running = (async () => task(controller.signal))();
+    // The slot is freed when the task really ends, not when we stop waiting for it: a timed-out
+    // task that ignores the abort still holds its socket, and the pool must not overcommit
+    running.then(() => this.release(), () => this.release());
+
+    // The timeout starts when the task starts, not while it waits in the queue
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        this.timedOut++;
+        controller.abort();
+        reject(new TimeoutError(this.taskTimeoutMs));
+      }, this.taskTimeoutMs);
+    });
+
     try {
-      await this.sendWelcomeEmail(email);
+      return await Promise.race([running, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  getStats(): BulkheadStats {
+    return {
+      name: this.name,
+      active: this.active,
+      queued: this.queue.length,
+      rejected: this.rejected,
+      timedOut: this.timedOut
+    };
+  }
+}
+
+// ✅ GOOD: Durable outbox - "will retry later" actually retries
+// Failed/deferred side effects are written to disk with their payload, a worker
+// retries them with backoff, and after N attempts they land in a dead-letter list
+// a human can replay or discard. Survives restarts.
+interface OutboxMessage {
+  id: string;
+  type: string;
+  payload: any;
+  status: 'pending' | 'dead';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export interface OutboxStore {
+  add(message: OutboxMessage): Promise<void>;
+  update(message: OutboxMessage): Promise<void>;
+  remove(id: string): Promise<void>;
+  list(status: OutboxMessage['status']): Promise<OutboxMessage[]>;
+}
+
+// Files locked by stores in this process - tells "our own second store" apart from a stale lock
+// left by an earlier process that happened to get the same PID (PID 1 after a container restart)
+const lockedOutboxFiles = new Set<string>();
+
+// Boring and durable: one JSON file, replaced atomically on every write.
+// Exactly one store owns a file - a second one (in this process or another) would overwrite
+// the first one's messages with its own stale copy, so a lock file makes it fail loudly instead.
+// With Postgres, use an outbox table and insert in the same transaction as the business write.
+export class FileOutboxStore implements OutboxStore {
+  private messages: OutboxMessage[] = [];
+  private loading: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async add(message: OutboxMessage): Promise<void> {
+    await this.load();
+    this.messages.push({ ...message });
+    await this.flush();
+  }
+
+  async update(message: OutboxMessage): Promise<void> {
+    await this.load();
+    this.messages = this.messages.map(m => (m.id === message.id ? { ...message } : m));
+    await this.flush();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.messages = this.messages.filter(m => m.id !== id);
+    await this.flush();
+  }
+
+  async list(status: OutboxMessage['status']): Promise<OutboxMessage[]> {
+    await this.load();
+    return this.messages.filter(m => m.status === status).map(m => ({ ...m }));
+  }
+
+  // Hand the file over (tests, graceful shutdown) - pending writes finish first
+  async close(): Promise<void> {
+    await this.writes;
+    if (this.loading) {
+      await rm(`${this.path}.lock`, { force: true });
+      lockedOutboxFiles.delete(resolve(this.path));
+    }
+    this.loading = null;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.lockAndRead().catch(error => {
+      this.loading = null;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async lockAndRead(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+
+    const file = resolve(this.path);
+    if (lockedOutboxFiles.has(file)) {
+      throw new Error(`Outbox file ${this.path} is already owned by this process - share one FileOutboxStore per file`);
+    }
+
+    const lockPath = `${this.path}.lock`;
+    try {
+      await writeFile(lockPath, String(process.pid), { flag: 'wx' });
     } catch (error) {
-      warnings.push('Welcome email failed - will retry later');
+      if (error.code !== 'EEXIST') throw error;
+      const owner = Number(await readFile(lockPath, 'utf8'));
+      if (owner !== process.pid && isProcessAlive(owner)) {
+        throw new Error(`Outbox file ${this.path} is already owned by process ${owner} - share one FileOutboxStore per file`);
+      }
+      // The previous owner died without closing (or was us, before a restart) - its messages are on disk, take over
+      await writeFile(lockPath, String(process.pid));
     }
+    lockedOutboxFiles.add(file);
 
     try {
-      await this.addToNewsletter(email);
+      this.messages = JSON.parse(await readFile(this.path, 'utf8'));
     } catch (error) {
-      warnings.push('Newsletter signup failed');
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private flush(): Promise<void> {
+    // Snapshot now, write in order: a slow write can't land after a newer one
+    const snapshot = JSON.stringify(this.messages, null, 2);
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      // Write-then-rename so a crash mid-write never leaves a half-written file
+      await writeFile(`${this.path}.tmp`, snapshot);
+      await rename(`${this.path}.tmp`, this.path);
+    });
+    return this.writes;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try {
+    process.kill(pid, 0); // Signal 0 only checks the process exists
+    return true;
+  } catch (error) {
+    return error.code === 'EPERM';
+  }
+}
+
+export type OutboxHandler = (payload: any, signal?: AbortSignal) => Promise<void>;
+
+export interface OutboxOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  handlerTimeoutMs?: number;            // Per delivery, including time spent waiting for a bulkhead slot
+  bulkheads?: Record<string, Bulkhead>; // Per message type - one hung consumer can't starve the others
+}
+
+export class Outbox {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private processing = false;
+  private options: Required<OutboxOptions>;
+
+  constructor(
+    private store: OutboxStore,
+    private handlers: Record<string, OutboxHandler>,
+    options: OutboxOptions = {}
+  ) {
+    this.options = {
+      maxAttempts: 5,
+      baseDelayMs: 1000,
+      maxDelayMs: 5 * 60 * 1000,
+      handlerTimeoutMs: 30 * 1000,
+      bulkheads: {},
+      ...options
+    };
+  }
+
+  async handle(type: string, payload: any, signal?: AbortSignal): Promise<void> {
+    const handler = this.handlers[type];
+    if (!handler) throw new Error(`No outbox handler for ${type}`);
+    await handler(payload, signal);
+  }
+
+  // Deferred work goes in with lastError unset; a failed first attempt passes its error
+  async enqueue(type: string, payload: any, lastError?: string): Promise<string> {
+    const now = Date.now();
+    const attempts = lastError ? 1 : 0;
+    const id = randomUUID();
+    await this.store.add({
+      id,
+      type,
+      payload,
+      status: 'pending',
+      attempts,
+      nextAttemptAt: attempts ? now + this.backoff(attempts) : now,
+      lastError,
+      createdAt: now
+    });
+    return id;
+  }
+
+  // The work got done some other way (e.g. a timed-out attempt finished late) - no retry needed
+  async dismiss(id: string): Promise<void> {
+    const pending = (await this.store.list('pending')).some(m => m.id === id);
+    if (pending) await this.store.remove(id);
+  }
+
+  // One worker tick: retry everything that's due, every message under its type's bulkhead and a timeout
+  async processDue(now: number = Date.now()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const due = (await this.store.list('pending')).filter(m => m.nextAttemptAt <= now);
+      const results = await Promise.all(due.map(message => this.retry(message, now)));
+      return results.filter(Boolean).length;
+    } finally {
+      this.processing = false;
     }
+  }
+
+  private async retry(message: OutboxMessage, now: number): Promise<boolean> {
+    const bulkhead = this.options.bulkheads[message.type];
+    const deliver: AsyncCall<void> = bulkhead
+      ? signal => bulkhead.run(async inner => {
+          signal.throwIfAborted(); // Timed out while queued for a slot - the failure is already recorded
+          await this.handle(message.type, message.payload, AbortSignal.any([signal, inner]));
+        })
+      : signal => this.handle(message.type, message.payload, signal);
 
     try {
-      await this.trackAnalytics(userId);
+      await wrap(deliver, withTimeout(this.options.handlerTimeoutMs))();
+      await this.store.remove(message.id);
+      return true;
     } catch (error) {
-      warnings.push('Analytics tracking failed');
+      message.attempts++;
+      message.lastError = error.message;
+
+      if (message.attempts >= this.options.maxAttempts) {
+        message.status = 'dead';
+        console.error(`💀 Outbox ${message.type} ${message.id} dead-lettered after ${message.attempts} attempts: ${error.message}`);
+      } else {
+        message.nextAttemptAt = now + this.backoff(message.attempts);
+      }
+      await this.store.update(message);
+      return false;
     }
+  }
+
+  start(intervalMs: number = 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => console.error('Outbox worker failed:', error));
+    }, intervalMs);
+    // Background work only - the worker alone must not keep the process (or a test run) alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
 
+  // Dead-letter API - for an admin page or a runbook script
+  listDeadLetters(): Promise<OutboxMessage[]> {
+    return this.store.list('dead');
+  }
+
+  async replayDeadLetter(id: string): Promise<void> {
+    const message = await this.findDeadLetter(id);
+    await this.store.update({ ...message, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  }
+
+  async discardDeadLetter(id: string): Promise<void> {
+    await this.findDeadLetter(id);
+    await this.store.remove(id);
+  }
+
+  private async findDeadLetter(id: string): Promise<OutboxMessage> {
+    const message = (await this.store.list('dead')).find(m => m.id === id);
+    if (!message) throw new Error(`Dead letter ${id} not found`);
+    return message;
+  }
+
+  private backoff(attempts: number): number {
+    // 1s, 2s, 4s... capped; half fixed + half random so retries spread out
+    const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempts - 1));
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
+
+// ✅ GOOD: Idempotency keys make retries safe
+// The client sends the same key on every retry; the first outcome (success OR failure)
+// is stored, so a retry after a timeout replays it instead of charging twice.
+export class IdempotencyConflictError extends Error {
+  constructor(key: string) {
+    super(`Idempotency key ${key} was already used with a different request`);
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  status: 'in-flight' | 'succeeded' | 'failed';
+  result?: unknown;
+  error?: { name: string; message: string };
+  createdAt: number;
+}
+
+// Swap in Redis/Postgres for multiple app servers - claim() must be atomic (SET NX / INSERT ... ON CONFLICT DO NOTHING)
+export interface IdempotencyStore {
+  claim(key: string, fingerprint: string): Promise<IdempotencyRecord | null>; // null = we got it
+  get(key: string): Promise<IdempotencyRecord | null>;
+  save(key: string, record: IdempotencyRecord): Promise<void>;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  constructor(private ttlMs: number = 24 * 60 * 60 * 1000) {}
+
+  async claim(key: string, fingerprint: string): Promise<IdempotencyRecord | null> {
+    // No await between the check and the set, so two concurrent claims can't both win
+    const existing = this.current(key);
+    if (existing) return existing;
+
+    this.records.set(key, { fingerprint, status: 'in-flight', createdAt: Date.now() });
+    return null;
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    return this.current(key);
+  }
+
+  async save(key: string, record: IdempotencyRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  private current(key: string): IdempotencyRecord | null {
+    const record = this.records.get(key);
+    if (record && Date.now() - record.createdAt > this.ttlMs) {
+      this.records.delete(key);
+      return null;
+    }
+    return record || null;
+  }
+}
+
+export class IdempotencyGuard {
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private store: IdempotencyStore = new InMemoryIdempotencyStore(),
+    private waitTimeoutMs: number = 30000,
+    private pollIntervalMs: number = 100,
+    // Fingerprints sit in the store next to the key - keyed, so a leaked store can't be brute-forced
+    // back to card tokens or emails. Servers sharing one store must share this key
+    private fingerprintKey: string = process.env.IDEMPOTENCY_FINGERPRINT_KEY || randomBytes(32).toString('hex')
+  ) {}
+
+  async run<T>(key: string, payload: unknown, operation: () => Promise<T>): Promise<T> {
+    const fingerprint = fingerprintOf(payload, this.fingerprintKey);
+    const existing = await this.store.claim(key, fingerprint);
+
+    if (existing) {
+      // Same key, different body = client bug; never silently return someone else's result
+      if (existing.fingerprint !== fingerprint) throw new IdempotencyConflictError(key);
+      return this.replay<T>(key, existing);
+    }
+
+    const attempt = this.execute(key, fingerprint, operation);
+    this.inFlight.set(key, attempt);
     try {
-      await this.notifyAdmins(userId);
+      return await attempt;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async execute<T>(key: string, fingerprint: string, operation: () => Promise<T>): Promise<T> {
+    const createdAt = Date.now();
+    try {
+      const result = await operation();
+      await this.store.save(key, { fingerprint, status: 'succeeded', result, createdAt });
+      return result;
     } catch (error) {
-      warnings.push('Admin notification failed');
+      await this.store.save(key, {
+        fingerprint,
+        status: 'failed',
+        error: { name: error.name || 'Error', message: error.message || String(error) },
+        createdAt
+      });
+      throw error;
     }
   }
 
-  private async createUser(email: string, password: string) {
-    return { id: '123', email };
+  private async replay<T>(key: string, record: IdempotencyRecord): Promise<T> {
+    // Concurrent duplicate: wait for the first attempt instead of starting a second one
+    const deadline = Date.now() + this.waitTimeoutMs;
+    while (record.status === 'in-flight') {
+      const local = this.inFlight.get(key);
+      if (local) return local as Promise<T>;
+
+      if (Date.now() > deadline) {
+        throw new Error(`Request with idempotency key ${key} is still in progress`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+      record = (await this.store.get(key)) || record;
+    }
+
+    if (record.status === 'failed') {
+      const error = new Error(record.error!.message);
+      error.name = record.error!.name;
+      throw error;
+    }
+    return record.result as T;
   }
-  private async sendWelcomeEmail(email: string) { /* ... */ }
-  private async addToNewsletter(email: string) { /* ... */ }
-  private async trackAnalytics(userId: string) { /* ... */ }
-  private async notifyAdmins(userId: string) { /* ... */ }
+}
+
+// Key order shouldn't matter: { a, b } and { b, a } are the same request
+function fingerprintOf(payload: unknown, key: string): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      const fields = value as Record<string, unknown>;
+      return Object.keys(fields).sort().reduce((out, name) => ({ ...out, [name]: canonical(fields[name]) }), {});
+    }
+    return value;
+  };
+  return createHmac('sha256', key).update(JSON.stringify(canonical(payload))).digest('hex');
 }
 
 // Another simple example: API calls with fallbacks
@@ -79,35 +741,770 @@ class BadCryptoPriceService {
   }
 }
 
+// ✅ GOOD: Reusable resilience policies - timeout, retry, circuit breaker, fallback
+// Every network call gets the same protection instead of ad-hoc try/catch.
+export type AsyncCall<T> = (signal: AbortSignal) => Promise<T>;
+export type Policy = <T>(call: AsyncCall<T>) => AsyncCall<T>;
+// For policies that only make sense for one result type - e.g. a fallback value
+export type TypedPolicy<T> = (call: AsyncCall<T>) => AsyncCall<T>;
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`Circuit ${name} is open - failing fast`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Apply policies outermost-first: wrap(call, withRetry(), breaker.policy, withTimeout(2000))
+export function wrap<T>(call: AsyncCall<T>, ...policies: TypedPolicy<T>[]): () => Promise<T> {
+  const wrapped = policies.reduceRight((inner, policy) => policy(inner), call);
+  return () => wrapped(new AbortController().signal);
+}
+
+export function withTimeout(ms: number): Policy {
+  return call => signal => {
+    // Caller already gave up - don't start work nobody will wait for
+    if (signal.aborted) return Promise.reject(signal.reason);
+
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', abort);
+
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        controller.abort(); // Cancel the underlying fetch, don't just stop waiting for it
+        reject(new TimeoutError(ms));
+      }, ms);
+    });
+
+    return Promise.race([call(controller.signal), timeout]).finally(() => {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', abort);
+    });
+  };
+}
+
+interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: any) => boolean;
+}
+
+// Exponential backoff with full jitter: wait random(0, min(max, base * 2^attempt))
+// so a thousand clients retrying at once don't hammer the dependency in lockstep.
+// An open circuit is never retried, whatever shouldRetry says - failing fast is its whole point
+export function withRetry({
+  attempts = 3,
+  baseDelayMs = 100,
+  maxDelayMs = 2000,
+  shouldRetry = () => true
+}: RetryOptions = {}): Policy {
+  return call => async signal => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call(signal);
+      } catch (error) {
+        if (attempt + 1 >= attempts || error instanceof CircuitOpenError || !shouldRetry(error) || signal.aborted) throw error;
+
+        const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+        // Aborted while backing off? Stop now with the real failure, not after the sleep
+        await sleep(delay, signal).catch(() => { throw error; });
+      }
+    }
+  };
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Typed to the call it wraps: the fallback has to produce the same kind of value as the call
+export function withFallback<T>(fallback: (error: any) => T | Promise<T>): TypedPolicy<T> {
+  return call => async signal => {
+    try {
+      return await call(signal);
+    } catch (error) {
+      return fallback(error);
+    }
+  };
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreakerState {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  lastError: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastError: string | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    private name: string,
+    private failureThreshold: number = 5,
+    private resetTimeoutMs: number = 30000
+  ) {}
+
+  // Use as a policy: wrap(call, breaker.policy)
+  policy: Policy = call => async signal => {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.resetTimeoutMs) {
+      this.state = 'half-open'; // Cooled down - let one probe through
+    }
+
+    if (this.state === 'open' || (this.state === 'half-open' && this.probeInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    const isProbe = this.state === 'half-open';
+    if (isProbe) this.probeInFlight = true;
+
+    try {
+      const result = await call(signal);
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure(error);
+      throw error;
+    } finally {
+      if (isProbe) this.probeInFlight = false;
+    }
+  };
+
+  getState(): CircuitBreakerState {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt) : null,
+      lastError: this.lastError
+    };
+  }
+
+  private onSuccess(): void {
+    if (this.state === 'half-open') {
+      console.log(`✅ Circuit ${this.name} closed - dependency recovered`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  private onFailure(error: any): void {
+    this.consecutiveFailures++;
+    this.lastError = error?.message || String(error);
+
+    // A failed probe re-opens immediately; otherwise open after N failures in a row
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`🔌 Circuit ${this.name} opened after ${this.consecutiveFailures} failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// ✅ GOOD: Last-known-good cache instead of a made-up number
+// Every successful fetch is remembered (and saved to disk every few seconds, so a restart
+// mid-outage still has prices). Callers always learn how old the value is.
+interface CachedPrice {
+  price: number;
+  source: string;
+  fetchedAt: number;
+}
+
+interface CacheLookup extends CachedPrice {
+  ageMs: number;
+  state: 'fresh' | 'stale' | 'expired';
+}
+
+interface PriceCacheOptions {
+  ttlMs?: Record<string, number>;   // Per-symbol TTL, e.g. { bitcoin: 10000 }
+  defaultTtlMs?: number;
+  staleWhileRevalidateMs?: number;  // After TTL: serve stale immediately + refresh in background
+  maxStalenessMs?: number;          // Beyond this, a price is worse than no price
+  persistEveryMs?: number;          // Disk is only read on restart - batch writes instead of one per fetch
+}
+
+function isUsablePrice(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// A missing field or "N/A" from an API is a failed source, not a price of NaN
+function parsePrice(value: unknown, source: string): number {
+  const price = typeof value === 'string' ? parseFloat(value) : value;
+  if (!isUsablePrice(price)) throw new Error(`${source} returned no usable price (${JSON.stringify(value)})`);
+  return price;
+}
+
+export class PriceCache {
+  private entries: Record<string, CachedPrice>;
+  private options: Required<PriceCacheOptions>;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private path: string, options: PriceCacheOptions = {}) {
+    this.options = {
+      ttlMs: {},
+      defaultTtlMs: 30000,
+      staleWhileRevalidateMs: 5 * 60 * 1000,
+      maxStalenessMs: 60 * 60 * 1000,
+      persistEveryMs: 5000,
+      ...options
+    };
+    this.entries = this.load();
+  }
+
+  get(symbol: string, now: number = Date.now()): CacheLookup | null {
+    const entry = this.entries[symbol];
+    if (!entry) return null;
+
+    const ageMs = now - entry.fetchedAt;
+    const ttl = this.options.ttlMs[symbol] ?? this.options.defaultTtlMs;
+
+    if (ageMs > this.options.maxStalenessMs) return null;
+    if (ageMs <= ttl) return { ...entry, ageMs, state: 'fresh' };
+    if (ageMs <= ttl + this.options.staleWhileRevalidateMs) return { ...entry, ageMs, state: 'stale' };
+    return { ...entry, ageMs, state: 'expired' };
+  }
+
+  // Memory only - validated before anything changes, and no IO that could fail halfway.
+  // The disk copy catches up on the next scheduled persist()
+  set(symbol: string, price: number, source: string): void {
+    if (!isUsablePrice(price)) {
+      throw new Error(`Refusing to cache ${symbol} price ${price} from ${source}`);
+    }
+    this.entries = { ...this.entries, [symbol]: { price, source, fetchedAt: Date.now() } };
+    this.schedulePersist();
+  }
+
+  // Also call on shutdown so the latest prices survive the restart
+  async persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.entries, null, 2);
+    // Same write-then-rename trick as the outbox
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(`${this.path}.tmp`, snapshot);
+    await rename(`${this.path}.tmp`, this.path);
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch(error => console.warn(`⚠️ Could not save price cache to ${this.path}: ${error.message}`));
+    }, this.options.persistEveryMs);
+    this.persistTimer.unref();
+  }
+
+  private load(): Record<string, CachedPrice> {
+    if (!existsSync(this.path)) return {};
+    try {
+      const saved: Record<string, CachedPrice> = JSON.parse(readFileSync(this.path, 'utf8'));
+      return Object.fromEntries(Object.entries(saved).filter(([, entry]) =>
+        isUsablePrice(entry?.price) && typeof entry.fetchedAt === 'number'));
+    } catch (error) {
+      // A corrupt cache file costs us the restart backup, not the whole service
+      console.warn(`⚠️ Ignoring unreadable price cache ${this.path}: ${error.message}`);
+      return {};
+    }
+  }
+}
+
 // ✅ GOOD: Fallbacks contain the blast radius
 class GoodCryptoPriceService {
-  async getCryptoPrice(symbol: string): Promise<{ price: number | null; source: string }> {
+  private coinGeckoBreaker = new CircuitBreaker('coingecko');
+  private coinbaseBreaker = new CircuitBreaker('coinbase');
+  private refreshing = new Map<string, Promise<Degraded<number | null>>>();
+  private degradationCounter: DegradationCounter;
+
+  // Pass the shared `metrics` registry so fallbacks show up as degradations_total on /metrics
+  constructor(
+    metricsRegistry: MetricsRegistry,
+    private cache: PriceCache = new PriceCache('./cache/prices.json')
+  ) {
+    this.degradationCounter = new DegradationCounter(metricsRegistry);
+  }
+
+  async getCryptoPrice(symbol: string): Promise<Degraded<number | null>> {
+    const cached = this.cache.get(symbol);
+
+    // Fresh enough: no network call at all
+    if (cached?.state === 'fresh') {
+      return this.degradationCounter.record(this.fromCache(cached, []));
+    }
+
+    // Stale-while-revalidate: answer now, refresh behind the caller's back
+    if (cached?.state === 'stale') {
+      this.refresh(symbol).catch(() => {});
+      return this.degradationCounter.record(
+        this.fromCache(cached, [{ capability: 'price', code: 'SERVED_STALE', detail: `${cached.ageMs}ms old` }])
+      );
+    }
+
+    return this.refresh(symbol);
+  }
+
+  // One refresh per symbol at a time, however many callers are waiting
+  private refresh(symbol: string): Promise<Degraded<number | null>> {
+    if (!this.refreshing.has(symbol)) {
+      this.refreshing.set(symbol, this.fetchLive(symbol).finally(() => this.refreshing.delete(symbol)));
+    }
+    return this.refreshing.get(symbol)!;
+  }
+
+  private async fetchLive(symbol: string): Promise<Degraded<number | null>> {
+    const degradations: Degradation[] = [];
+
     // Try primary source
+    let price: number | null = null;
     try {
-      const response = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=${symbol}&vs_currencies=usd`);
-      const data = await response.json();
-      return { price: data[symbol].usd, source: 'CoinGecko' };
+      price = await this.callSource(this.coinGeckoBreaker, async signal => {
+        const response = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=${symbol}&vs_currencies=usd`, { signal });
+        if (!response.ok) throw new HttpError(response.status, `CoinGecko returned ${response.status}`);
+        const data = await response.json();
+        return parsePrice(data?.[symbol]?.usd, 'CoinGecko');
+      });
     } catch (error) {
-      console.warn('CoinGecko failed, trying backup...');
+      console.warn(`CoinGecko failed (${error.message}), trying backup...`);
+      degradations.push({ capability: 'price:coingecko', code: 'SOURCE_FAILED', detail: error.message });
     }
+    if (price !== null) return this.remember(symbol, price, 'coingecko', null, degradations);
 
     // Try backup source
     try {
-      const response = await fetch(`https://api.coinbase.com/v2/exchange-rates?currency=${symbol}`);
-      const data = await response.json();
-      return { price: parseFloat(data.data.rates.USD), source: 'Coinbase' };
+      price = await this.callSource(this.coinbaseBreaker, async signal => {
+        const response = await fetch(`https://api.coinbase.com/v2/exchange-rates?currency=${symbol}`, { signal });
+        if (!response.ok) throw new HttpError(response.status, `Coinbase returned ${response.status}`);
+        const data = await response.json();
+        return parsePrice(data?.data?.rates?.USD, 'Coinbase');
+      });
+    } catch (error) {
+      console.warn(`Coinbase failed (${error.message}), using cached data...`);
+      degradations.push({ capability: 'price:coinbase', code: 'SOURCE_FAILED', detail: error.message });
+    }
+    if (price !== null) return this.remember(symbol, price, 'coinbase', 'coinbase', degradations);
+
+    // Last resort: last known good price, as long as it isn't too old
+    const cached = this.cache.get(symbol);
+    if (cached) {
+      degradations.push({ capability: 'price', code: 'SERVED_STALE', detail: `${cached.ageMs}ms old` });
+      return this.degradationCounter.record(this.fromCache(cached, degradations));
+    }
+
+    degradations.push({ capability: 'price', code: 'UNAVAILABLE' });
+    return this.degradationCounter.record({
+      value: null,
+      degradations,
+      fallback: null,
+      freshness: { asOf: null, ageMs: null }
+    });
+  }
+
+  getDegradationCounts() {
+    return this.degradationCounter.snapshot();
+  }
+
+  // Outside the source's try: a cache problem must never turn a good live price into a "source failed"
+  private remember(symbol: string, price: number, source: string, fallback: string | null, degradations: Degradation[]): Degraded<number> {
+    try {
+      this.cache.set(symbol, price, source);
     } catch (error) {
-      console.warn('Coinbase failed, using cached data...');
+      console.warn(`⚠️ Could not cache ${symbol} price from ${source}: ${error.message}`);
     }
+    return this.live(price, fallback, degradations);
+  }
+
+  private live(price: number, fallback: string | null, degradations: Degradation[]): Degraded<number> {
+    return this.degradationCounter.record({
+      value: price,
+      degradations,
+      fallback,
+      freshness: { asOf: new Date(), ageMs: 0 }
+    });
+  }
+
+  private fromCache(cached: CacheLookup, degradations: Degradation[]): Degraded<number> {
+    return {
+      value: cached.price,
+      degradations,
+      fallback: cached.state === 'fresh' ? null : 'cache',
+      freshness: { asOf: new Date(cached.fetchedAt), ageMs: cached.ageMs }
+    };
+  }
+
+  // Is a source sick right now? Put this on a status page or health endpoint
+  getBreakerStates(): CircuitBreakerState[] {
+    return [this.coinGeckoBreaker.getState(), this.coinbaseBreaker.getState()];
+  }
+
+  private callSource(breaker: CircuitBreaker, call: AsyncCall<number>): Promise<number> {
+    // 2 quick attempts, each capped at 2s; an open breaker skips straight to the next source
+    return wrap(call, withRetry({ attempts: 2 }), breaker.policy, withTimeout(2000))();
+  }
+}
+
+// ✅ GOOD: Rate limits and quotas per user/tenant protect shared resources
+// One noisy tenant shouldn't be able to eat the whole OpenAI budget for everyone.
+export interface RateLimitRule {
+  algorithm: 'token-bucket' | 'sliding-window';
+  limit: number;     // Bucket size / requests per window
+  windowMs: number;  // Token bucket refills `limit` tokens per window
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;       // Until the bucket is full again / the window rolls over
+  retryAfterMs: number;  // 0 when allowed
+}
+
+// Standard RateLimit-* headers so clients can back off on their own
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000))
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+  return headers;
+}
 
-    // Last resort: cached data
-    const cachedPrice = this.getCachedPrice(symbol);
-    return { price: cachedPrice, source: 'Cache' };
+export interface RateLimitCheck {
+  key: string;
+  rule: RateLimitRule;
+}
+
+// Consumes from ALL checks or from none - atomically, so concurrent requests can't overshoot
+export interface RateLimitBackend {
+  consume(checks: RateLimitCheck[], cost: number, now: number): Promise<RateLimitResult[]>;
+  // Give back what a consume took, when a later check (e.g. the monthly quota) turned the request away
+  refund(checks: RateLimitCheck[], cost: number, now: number): Promise<void>;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  ts: number;
+}
+
+interface SlidingWindowState {
+  start: number;
+  curr: number;
+  prev: number;
+}
+
+type LimiterState = TokenBucketState | SlidingWindowState;
+
+// Shared math for both backends (the Lua script below mirrors it line by line)
+function evaluateLimit(
+  rule: RateLimitRule,
+  state: LimiterState | undefined,
+  cost: number,
+  now: number
+): { result: RateLimitResult; consumed: LimiterState } {
+  const { limit, windowMs } = rule;
+
+  if (rule.algorithm === 'token-bucket') {
+    // A key whose rule switched algorithm starts fresh instead of misreading the old state
+    const bucket = state && 'tokens' in state ? state : undefined;
+    const rate = limit / windowMs;
+    const elapsed = now - (bucket?.ts ?? now);
+    const tokens = Math.min(limit, (bucket?.tokens ?? limit) + elapsed * rate);
+    const allowed = tokens >= cost;
+    const after = allowed ? tokens - cost : tokens;
+
+    return {
+      result: {
+        allowed,
+        limit,
+        remaining: Math.floor(after),
+        resetMs: Math.ceil((limit - after) / rate),
+        retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / rate)
+      },
+      consumed: { tokens: after, ts: now }
+    };
+  }
+
+  // Sliding window counter: previous window's count, weighted by how much of it still overlaps
+  const window = state && 'start' in state ? state : undefined;
+  const windowStart = now - (now % windowMs);
+  let prev = window?.prev ?? 0;
+  let curr = window?.curr ?? 0;
+  if (window && window.start !== windowStart) {
+    prev = windowStart - window.start === windowMs ? curr : 0;
+    curr = 0;
+  }
+
+  const used = prev * (1 - (now - windowStart) / windowMs) + curr;
+  const allowed = used + cost <= limit;
+  const resetMs = windowStart + windowMs - now;
+
+  return {
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - used - (allowed ? cost : 0))),
+      resetMs,
+      retryAfterMs: allowed ? 0 : resetMs
+    },
+    consumed: { start: windowStart, curr: curr + cost, prev }
+  };
+}
+
+// Undo one consume: tokens go back into the bucket, the current window's count goes down
+function refundLimit(rule: RateLimitRule, state: LimiterState | undefined, cost: number, now: number): LimiterState | undefined {
+  if (!state) return state;
+  if ('tokens' in state) {
+    return { ...state, tokens: Math.min(rule.limit, state.tokens + cost) };
   }
+  // A window that already rolled over has nothing of this request left to give back
+  if (state.start === now - (now % rule.windowMs)) {
+    return { ...state, curr: Math.max(0, state.curr - cost) };
+  }
+  return state;
+}
+
+export class InMemoryRateLimitBackend implements RateLimitBackend {
+  // Same idea as PEXPIRE in the Redis backend: an idle key is forgotten after two windows
+  private state = new Map<string, { value: LimiterState; expiresAt: number }>();
+  private nextSweepAt = 0;
+
+  constructor(private sweepIntervalMs: number = 60000) {}
+
+  async consume(checks: RateLimitCheck[], cost: number, now: number): Promise<RateLimitResult[]> {
+    this.sweep(now);
+
+    // No await between check and write - JS runs this block without interleaving
+    const evaluated = checks.map(check => evaluateLimit(check.rule, this.get(check.key, now), cost, now));
 
-  private getCachedPrice(symbol: string): number | null {
-    // Return cached price or null
-    return 50000; // Example cached Bitcoin price
+    if (evaluated.every(e => e.result.allowed)) {
+      checks.forEach((check, i) => this.put(check, evaluated[i].consumed, now));
+    }
+
+    return evaluated.map(e => e.result);
+  }
+
+  async refund(checks: RateLimitCheck[], cost: number, now: number): Promise<void> {
+    for (const check of checks) {
+      const refunded = refundLimit(check.rule, this.get(check.key, now), cost, now);
+      if (refunded) this.put(check, refunded, now);
+    }
+  }
+
+  private get(key: string, now: number): LimiterState | undefined {
+    const entry = this.state.get(key);
+    return entry && entry.expiresAt > now ? entry.value : undefined;
+  }
+
+  private put(check: RateLimitCheck, value: LimiterState, now: number): void {
+    this.state.set(check.key, { value, expiresAt: now + check.rule.windowMs * 2 });
+  }
+
+  // Every key ever seen would otherwise live forever - one per user, tenant and IP
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) return;
+    this.nextSweepAt = now + this.sweepIntervalMs;
+    for (const [key, entry] of this.state) {
+      if (entry.expiresAt <= now) this.state.delete(key);
+    }
+  }
+}
+
+// Anything with EVAL works: ioredis, node-redis (wrap sendCommand), or a test fake
+export interface RedisLike {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<any>;
+}
+
+// Lua runs atomically inside Redis, so check-and-consume can't race across app servers
+const RATE_LIMIT_LUA = `
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local results = {}
+local writes = {}
+local allAllowed = true
+
+for i, key in ipairs(KEYS) do
+  local base = 2 + (i - 1) * 3
+  local algorithm = ARGV[base + 1]
+  local limit = tonumber(ARGV[base + 2])
+  local window = tonumber(ARGV[base + 3])
+  local allowed, remaining, reset, retry
+
+  if algorithm == 'token-bucket' then
+    local state = redis.call('HMGET', key, 'tokens', 'ts')
+    local rate = limit / window
+    local tokens = math.min(limit, (tonumber(state[1]) or limit) + (now - (tonumber(state[2]) or now)) * rate)
+    allowed = tokens >= cost
+    local after = allowed and (tokens - cost) or tokens
+    remaining = math.floor(after)
+    reset = math.ceil((limit - after) / rate)
+    retry = allowed and 0 or math.ceil((cost - tokens) / rate)
+    writes[i] = { 'tokens', tostring(after), 'ts', now }
+  else
+    local state = redis.call('HMGET', key, 'start', 'curr', 'prev')
+    local windowStart = now - (now % window)
+    local start = tonumber(state[1])
+    local curr = tonumber(state[2]) or 0
+    local prev = tonumber(state[3]) or 0
+    if start and start ~= windowStart then
+      if windowStart - start == window then prev = curr else prev = 0 end
+      curr = 0
+    end
+    local used = prev * (1 - (now - windowStart) / window) + curr
+    allowed = used + cost <= limit
+    local consumed = allowed and cost or 0
+    remaining = math.max(0, math.floor(limit - used - consumed))
+    reset = windowStart + window - now
+    retry = allowed and 0 or reset
+    writes[i] = { 'start', windowStart, 'curr', curr + cost, 'prev', prev }
+  end
+
+  if not allowed then allAllowed = false end
+  table.insert(results, { allowed and 1 or 0, limit, remaining, reset, retry })
+end
+
+if allAllowed then
+  for i, key in ipairs(KEYS) do
+    redis.call('HSET', key, unpack(writes[i]))
+    redis.call('PEXPIRE', key, tonumber(ARGV[2 + (i - 1) * 3 + 3]) * 2)
+  end
+end
+
+return results
+`;
+
+// Mirrors refundLimit() above
+const RATE_LIMIT_REFUND_LUA = `
+local now = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+
+for i, key in ipairs(KEYS) do
+  local limit = tonumber(ARGV[2 + (i - 1) * 2 + 1])
+  local window = tonumber(ARGV[2 + (i - 1) * 2 + 2])
+  local state = redis.call('HMGET', key, 'tokens', 'start', 'curr')
+
+  if state[1] then
+    redis.call('HSET', key, 'tokens', tostring(math.min(limit, tonumber(state[1]) + cost)))
+  elseif state[2] and tonumber(state[2]) == now - (now % window) then
+    redis.call('HSET', key, 'curr', math.max(0, tonumber(state[3]) - cost))
+  end
+end
+`;
+
+export class RedisRateLimitBackend implements RateLimitBackend {
+  constructor(private redis: RedisLike, private prefix: string = 'ratelimit:') {}
+
+  async consume(checks: RateLimitCheck[], cost: number, now: number): Promise<RateLimitResult[]> {
+    const keys = checks.map(check => this.prefix + check.key);
+    const args = checks.flatMap(check => [check.rule.algorithm, check.rule.limit, check.rule.windowMs]);
+    const rows: number[][] = await this.redis.eval(RATE_LIMIT_LUA, keys.length, ...keys, now, cost, ...args);
+
+    return rows.map(([allowed, limit, remaining, resetMs, retryAfterMs]) => ({
+      allowed: allowed === 1,
+      limit,
+      remaining,
+      resetMs,
+      retryAfterMs
+    }));
+  }
+
+  async refund(checks: RateLimitCheck[], cost: number, now: number): Promise<void> {
+    const keys = checks.map(check => this.prefix + check.key);
+    const args = checks.flatMap(check => [check.rule.limit, check.rule.windowMs]);
+    await this.redis.eval(RATE_LIMIT_REFUND_LUA, keys.length, ...keys, now, cost, ...args);
+  }
+}
+
+interface PlanLimits {
+  perUser: RateLimitRule;    // Burst protection for one user
+  perTenant: RateLimitRule;  // Shared budget for a whole team/org
+}
+
+export const PLAN_RATE_LIMITS: Record<string, PlanLimits> = {
+  basic: {
+    perUser: { algorithm: 'token-bucket', limit: 2, windowMs: 1000 },
+    perTenant: { algorithm: 'sliding-window', limit: 60, windowMs: 60000 }
+  },
+  pro: {
+    perUser: { algorithm: 'token-bucket', limit: 10, windowMs: 1000 },
+    perTenant: { algorithm: 'sliding-window', limit: 600, windowMs: 60000 }
+  },
+  enterprise: {
+    perUser: { algorithm: 'token-bucket', limit: 50, windowMs: 1000 },
+    perTenant: { algorithm: 'sliding-window', limit: 6000, windowMs: 60000 }
+  }
+};
+
+export interface RateLimitCaller {
+  userId: string;
+  tenantId?: string;
+  plan: string;
+}
+
+export class RateLimiter {
+  constructor(
+    private backend: RateLimitBackend = new InMemoryRateLimitBackend(),
+    private plans: Record<string, PlanLimits> = PLAN_RATE_LIMITS
+  ) {}
+
+  async consume(caller: RateLimitCaller, cost: number = 1): Promise<RateLimitResult> {
+    const results = await this.backend.consume(this.checksFor(caller), cost, Date.now());
+
+    // Report the tightest limit so clients back off for the right reason
+    const denied = results.filter(r => !r.allowed);
+    if (denied.length > 0) {
+      return denied.reduce((a, b) => (a.retryAfterMs >= b.retryAfterMs ? a : b));
+    }
+    return results.reduce((a, b) => (a.remaining <= b.remaining ? a : b));
+  }
+
+  // Only after an allowed consume() - the request was turned away further down, so it shouldn't count
+  async refund(caller: RateLimitCaller, cost: number = 1): Promise<void> {
+    await this.backend.refund(this.checksFor(caller), cost, Date.now());
+  }
+
+  private checksFor(caller: RateLimitCaller): RateLimitCheck[] {
+    const limits = this.plans[caller.plan] || this.plans.basic;
+    const checks: RateLimitCheck[] = [{ key: `user:${caller.userId}`, rule: limits.perUser }];
+    if (caller.tenantId) {
+      checks.push({ key: `tenant:${caller.tenantId}`, rule: limits.perTenant });
+    }
+    return checks;
   }
 }
 
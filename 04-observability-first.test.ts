@@ -0,0 +1,233 @@
+// Example alert rules against a fake clock, delivered to a local HTTP stand-in for the webhook
+// Run: node --test (after compiling) or npx tsx --test 04-observability-first.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  AlertEngine,
+  AlertNotification,
+  exampleAlertRules,
+  Logger,
+  LogRecord,
+  OtlpHttpExporter,
+  PAYMENT_SLOS,
+  PRICE_SLOS,
+  Redactor,
+  SloEngine,
+  SpanData,
+  WebhookNotifier
+} from './04-observability-first';
+
+const MINUTE_MS = 60 * 1000;
+
+// Collects every POST body, answers with whatever status the test asks for
+async function webhookStandIn(status: () => number = () => 200): Promise<{ url: string; received: AlertNotification[]; server: Server }> {
+  const received: AlertNotification[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push(JSON.parse(body));
+      res.writeHead(status());
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`, received, server };
+}
+
+function setup(url: string) {
+  let time = Date.parse('2026-01-01T12:00:00Z');
+  const clock = {
+    now: () => time,
+    advance: (ms: number) => { time += ms; }
+  };
+  const slos = new SloEngine([...PAYMENT_SLOS, ...PRICE_SLOS], clock.now);
+  const logs: LogRecord[] = [];
+  const logger = new Logger([{ write: record => logs.push(record) }]);
+  const alerts = new AlertEngine(exampleAlertRules(slos), slos, [new WebhookNotifier(url)], logger, 4 * 60 * MINUTE_MS, clock.now);
+  return { clock, slos, logs, alerts };
+}
+
+// `count` calls spread evenly over the last `spanMs`, a `failing` share of them (0.3 = 3 in 10) failing
+function recordCalls(slos: SloEngine, clock: { now: () => number }, metric: string, count: number, failing: number, spanMs: number = 5 * MINUTE_MS): void {
+  for (let i = 0; i < count; i++) {
+    slos.record(metric, 50, i % 10 >= failing * 10, clock.now() - spanMs + (i * spanMs) / count);
+  }
+}
+
+test('a payment error burst pages once, grouped by service, and resolves when it stops', async () => {
+  const webhook = await webhookStandIn();
+  try {
+    const { clock, slos, alerts } = setup(webhook.url);
+    recordCalls(slos, clock, 'payment_charge', 200, 0.5); // 50% failing against a 99% target = 50x burn
+
+    const firing = await alerts.evaluate();
+    assert.ok(firing.some(alert => alert.rule === 'PaymentErrorBudgetBurn'));
+    assert.equal(webhook.received.length, 1);
+    assert.equal(webhook.received[0].group, 'payments');
+    assert.deepEqual(webhook.received[0].alerts.map(alert => alert.rule).sort(), ['PaymentErrorBudgetBurn', 'PaymentSlowBurn']);
+
+    // Still burning a minute later - nobody gets paged again
+    clock.advance(MINUTE_MS);
+    await alerts.evaluate();
+    assert.equal(webhook.received.length, 1);
+
+    // Two quiet hours: the 1h window is clean, the 72h ticket rule still sees the damage
+    clock.advance(2 * 60 * MINUTE_MS);
+    recordCalls(slos, clock, 'payment_charge', 200, 0);
+    await alerts.evaluate();
+    const resolved = webhook.received[1].alerts;
+    assert.deepEqual(resolved.map(alert => [alert.rule, alert.status]), [['PaymentErrorBudgetBurn', 'resolved']]);
+    assert.deepEqual(alerts.firing().map(alert => alert.rule), ['PaymentSlowBurn']);
+  } finally {
+    webhook.server.close();
+  }
+});
+
+test('price fetch errors must last for the rule\'s forMs before anyone is paged', async () => {
+  const webhook = await webhookStandIn();
+  try {
+    const { clock, slos, alerts } = setup(webhook.url);
+    recordCalls(slos, clock, 'price_fetch', 100, 0.3); // 30% failing, threshold is 20%
+
+    assert.deepEqual(await alerts.evaluate(), []);
+
+    clock.advance(2 * MINUTE_MS);
+    recordCalls(slos, clock, 'price_fetch', 100, 0.3, 2 * MINUTE_MS);
+    const firing = await alerts.evaluate();
+
+    assert.deepEqual(firing.map(alert => alert.rule), ['PriceFetchErrors']);
+    assert.equal(webhook.received.length, 1);
+    assert.equal(webhook.received[0].group, 'prices');
+  } finally {
+    webhook.server.close();
+  }
+});
+
+test('a failing webhook is logged and the page is sent again on the next evaluation', async () => {
+  let status = 503;
+  const webhook = await webhookStandIn(() => status);
+  try {
+    const { clock, slos, logs, alerts } = setup(webhook.url);
+    recordCalls(slos, clock, 'payment_charge', 200, 0.5);
+
+    const firing = await alerts.evaluate();
+    assert.equal(webhook.received.length, 1);
+    assert.ok(firing.some(alert => alert.rule === 'PaymentErrorBudgetBurn'));
+    assert.ok(logs.some(record => record.msg === 'alerts.notify_failed' && record.group === 'payments'));
+
+    // Webhook is back: the page goes out, and then it's deduplicated as usual
+    status = 200;
+    clock.advance(MINUTE_MS);
+    await alerts.evaluate();
+    assert.equal(webhook.received.length, 2);
+    assert.equal(webhook.received[1].group, 'payments');
+
+    clock.advance(MINUTE_MS);
+    await alerts.evaluate();
+    assert.equal(webhook.received.length, 2);
+  } finally {
+    webhook.server.close();
+  }
+});
+
+test('a resolve notice that fails to go out is retried', async () => {
+  let status = 200;
+  const webhook = await webhookStandIn(() => status);
+  try {
+    const { clock, slos, alerts } = setup(webhook.url);
+    recordCalls(slos, clock, 'price_fetch', 100, 0.3);
+    await alerts.evaluate();
+    clock.advance(2 * MINUTE_MS);
+    recordCalls(slos, clock, 'price_fetch', 100, 0.3, 2 * MINUTE_MS);
+    await alerts.evaluate();
+    assert.equal(webhook.received.length, 1);
+
+    // Recovered, but the webhook is down when we try to say so
+    status = 503;
+    clock.advance(10 * MINUTE_MS);
+    recordCalls(slos, clock, 'price_fetch', 100, 0);
+    await alerts.evaluate();
+    assert.equal(webhook.received.length, 2);
+
+    status = 200;
+    clock.advance(MINUTE_MS);
+    await alerts.evaluate();
+    assert.deepEqual(webhook.received[2].alerts.map(alert => [alert.rule, alert.status]), [['PriceFetchErrors', 'resolved']]);
+
+    clock.advance(MINUTE_MS);
+    await alerts.evaluate();
+    assert.equal(webhook.received.length, 3);
+  } finally {
+    webhook.server.close();
+  }
+});
+
+test('redaction survives self-references and keeps nested errors readable', () => {
+  const redactor = new Redactor({ hashSalt: 'test-salt' });
+  const req: Record<string, unknown> = { url: '/charge', headers: { authorization: 'Bearer abc' } };
+  req.socket = { parser: { incoming: req } };
+  const cause = Object.assign(new Error('card 4242 4242 4242 4242 declined for bob@example.com'), { code: 'card_declined' });
+
+  const redacted: any = redactor.redact({ req, details: { cause } });
+
+  assert.equal(redacted.req.socket.parser.incoming, '[Circular]');
+  assert.equal(redacted.req.headers.authorization, '[REDACTED]');
+  assert.equal(redacted.details.cause.name, 'Error');
+  assert.equal(redacted.details.cause.code, 'card_declined');
+  assert.equal(redacted.details.cause.message, 'card [REDACTED:card] declined for [REDACTED:email]');
+  assert.match(redacted.details.cause.stack, /^Error: card \[REDACTED:card\]/);
+});
+
+test('a field that cannot be redacted never breaks the caller', () => {
+  const logs: LogRecord[] = [];
+  const logger = new Logger([{ write: record => logs.push(record) }]);
+  const hostile = { get boom(): string { throw new Error('getter exploded'); } };
+
+  assert.doesNotThrow(() => logger.info('incoming', { hostile }));
+  assert.equal(logs[0].msg, 'incoming');
+  assert.match(logs[0].logError, /getter exploded/);
+});
+
+function spanData(name: string): SpanData {
+  const time = Date.parse('2026-01-01T12:00:00Z');
+  return { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), name, startTime: time, endTime: time + 5, attributes: {}, events: [], status: { code: 'ok' } };
+}
+
+test('spans are sent in batches, and a full queue drops instead of growing', async () => {
+  const collector = await webhookStandIn();
+  const exporter = new OtlpHttpExporter(collector.url, 'test', { maxQueueSize: 3, maxBatchSize: 2, flushIntervalMs: 60 * MINUTE_MS });
+  const sentNames = () => (collector.received as any[]).map(body => body.resourceSpans[0].scopeSpans[0].spans.map((span: { name: string }) => span.name));
+  try {
+    exporter.export([spanData('one')]);
+    assert.equal(collector.received.length, 0); // a partial batch waits
+
+    exporter.export([spanData('two')]); // full batch - sent right away
+    await exporter.flush();
+    assert.deepEqual(sentNames(), [['one', 'two']]);
+
+    exporter.export([spanData('three'), spanData('four'), spanData('five'), spanData('six')]);
+    await exporter.shutdown();
+    assert.deepEqual(sentNames(), [['one', 'two'], ['three', 'four'], ['five']]);
+    assert.equal(exporter.droppedSpans(), 1);
+  } finally {
+    collector.server.close();
+  }
+});
+
+test('a hung collector is abandoned after the timeout and its batch dropped', async () => {
+  const hung = createServer(() => { /* never answers */ });
+  await new Promise<void>(resolve => hung.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(hung.address() as AddressInfo).port}/v1/traces`;
+  const exporter = new OtlpHttpExporter(url, 'test', { flushIntervalMs: 60 * MINUTE_MS, timeoutMs: 50 });
+  try {
+    exporter.export([spanData('lost')]);
+    await assert.rejects(exporter.shutdown(), { name: 'TimeoutError' });
+    assert.equal(exporter.droppedSpans(), 1);
+  } finally {
+    hung.closeAllConnections();
+    hung.close();
+  }
+});
@@ -1,5 +1,13 @@
 // Principle 4: Observability First
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync } from 'fs';
+import { appendFile, mkdir, rename, stat } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { dirname } from 'path';
+import { IdempotencyGuard } from './03-contain-blast-radius';
+
 // ❌ BAD: No visibility when things go wrong
 class BadPaymentService {
   async chargeUser(userId: string, amount: number): Promise<void> {
@@ -17,25 +25,37 @@ class BadPaymentService {
 
 // ✅ GOOD: Add logs so you can see what's happening
 class GoodPaymentService {
-  async chargeUser(userId: string, amount: number): Promise<void> {
-    console.log(`Starting payment for user ${userId}, amount: $${amount}`);
+  constructor(
+    private idempotency: IdempotencyGuard = new IdempotencyGuard(),
+    private logger: Logger = new Logger()
+  ) {}
 
-    try {
-      const user = await this.getUser(userId);
-      console.log(`User found: ${user.email}`);
+  async chargeUser(userId: string, amount: number, idempotencyKey: string): Promise<void> {
+    // Every line below carries userId and the key - one filter shows the whole payment
+    const log = this.logger.child({ userId, idempotencyKey });
+    log.info('Starting payment', { amount });
 
-      const paymentResult = await this.processPayment(user, amount);
-      console.log(`Payment processed: ${paymentResult.status}, ID: ${paymentResult.id}`);
+    // Retries with the same key replay the first outcome instead of charging again
+    return this.idempotency.run(`charge:${idempotencyKey}`, { userId, amount }, async () => {
+      try {
+        const user = await this.getUser(userId);
+        // Goes through the redactor: logged as a stable hash, still lets you grep one user's requests
+        log.info('User found', { email: user.email });
 
-      await this.updateDatabase(userId, paymentResult);
-      console.log(`Database updated for user ${userId}`);
+        const paymentResult = await this.processPayment(user, amount);
+        log.info('Payment processed', { status: paymentResult.status, paymentId: paymentResult.id });
 
-      console.log(`✅ Payment completed successfully for ${userId}`);
+        await this.updateDatabase(userId, paymentResult);
+        log.info('Database updated');
 
-    } catch (error) {
-      console.error(`❌ Payment failed for user ${userId}:`, error.message);
-      throw error;
-    }
+        log.info('✅ Payment completed successfully');
+
+      } catch (error) {
+        // Provider errors can echo card numbers or tokens back - the redactor scrubs the message
+        log.error('Payment failed', { error });
+        throw error;
+      }
+    });
   }
 
   private async getUser(userId: string) {
@@ -47,35 +67,1572 @@ class GoodPaymentService {
   private async updateDatabase(userId: string, result: any) { /* ... */ }
 }
 
-// Even better: Add timing to see what's slow
-class BetterPaymentService {
-  async chargeUser(userId: string, amount: number): Promise<void> {
-    const startTime = Date.now();
-    console.log(`🚀 Starting payment for user ${userId}, amount: $${amount}`);
+// Every log line, metric and span says which release produced it - "did the deploy do this?" becomes a query
+export const RELEASE_VERSION = process.env.RELEASE_VERSION || 'dev';
+
+// ✅ BETTER: PII never reaches the logs in the first place
+// Log pipelines get copied to vendors, laptops and support tickets. Redact before writing, not after a breach.
+export type RedactionAction = 'remove' | 'hash';
+
+export interface RedactionOptions {
+  fields?: Record<string, RedactionAction>;          // by field name, e.g. { email: 'hash' }
+  detectors?: Array<{ name: string; pattern: RegExp; check?: (match: string) => boolean }>;
+  allowlist?: string[];                              // escape hatch: fields that are never touched
+  hashSalt?: string;                                 // defaults to PII_HASH_SALT, else random per process
+}
+
+// Hashing keeps correlation ("same user in all these lines") without the raw value
+export const DEFAULT_REDACTED_FIELDS: Record<string, RedactionAction> = {
+  email: 'hash',
+  cardToken: 'remove',
+  cardNumber: 'remove',
+  cvv: 'remove',
+  privateKey: 'remove',
+  mnemonic: 'remove',
+  password: 'remove',
+  secret: 'remove',
+  apiKey: 'remove',
+  authorization: 'remove'
+};
 
+export const DEFAULT_PII_DETECTORS: NonNullable<RedactionOptions['detectors']> = [
+  { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { name: 'card', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, check: match => luhnValid(match.replace(/\D/g, '')) },
+  { name: 'private-key', pattern: /\b(?:0x)?[0-9a-fA-F]{64}\b/g }
+];
+
+const MAX_REDACTION_DEPTH = 10;
+
+// Our own correlation IDs are random hex - never PII
+const REDACTION_ALWAYS_ALLOWED = ['time', 'level', 'release', 'requestId', 'traceId', 'spanId', 'parentSpanId'];
+
+export class Redactor {
+  private fields: Map<string, RedactionAction>;
+  private detectors: NonNullable<RedactionOptions['detectors']>;
+  private allowlist: Set<string>;
+  private hashSalt: string;
+
+  constructor(options: RedactionOptions = {}) {
+    this.fields = new Map(Object.entries(options.fields || DEFAULT_REDACTED_FIELDS).map(([name, action]) => [normalizeFieldName(name), action]));
+    this.detectors = options.detectors || DEFAULT_PII_DETECTORS;
+    this.allowlist = new Set([...REDACTION_ALWAYS_ALLOWED, ...(options.allowlist || [])].map(normalizeFieldName));
+    // An unsalted hash of an email is reversible by hashing a list of emails. No salt configured?
+    // A random one still protects the logs - hashes just won't match across processes or restarts
+    this.hashSalt = options.hashSalt || process.env.PII_HASH_SALT || randomBytes(32).toString('hex');
+  }
+
+  // Returns a redacted copy - the caller's object is never modified
+  redact<T>(value: T, fieldName?: string): T {
+    return this.redactValue(value, fieldName, new WeakSet(), 0) as T;
+  }
+
+  // Logged objects are whatever the caller had at hand - an http request points back at itself
+  private redactValue(value: unknown, fieldName: string | undefined, ancestors: WeakSet<object>, depth: number): unknown {
+    const normalized = fieldName === undefined ? undefined : normalizeFieldName(fieldName);
+    if (normalized !== undefined && this.allowlist.has(normalized)) return value;
+
+    const action = normalized === undefined ? undefined : this.actionFor(normalized);
+    if (action && value !== undefined && value !== null) {
+      return action === 'hash' ? this.hash(value) : '[REDACTED]';
+    }
+
+    if (typeof value === 'string') return this.scrub(value);
+    if (!value || typeof value !== 'object' || value instanceof Date) return value;
+    if (ancestors.has(value)) return '[Circular]';
+    if (depth >= MAX_REDACTION_DEPTH) return '[Truncated]';
+
+    ancestors.add(value);
     try {
-      // Time each step to find bottlenecks
-      let stepStart = Date.now();
-      const user = await this.getUser(userId);
-      console.log(`👤 User found in ${Date.now() - stepStart}ms: ${user.email}`);
+      if (Array.isArray(value)) return value.map(item => this.redactValue(item, undefined, ancestors, depth + 1));
+
+      // message and stack aren't enumerable - without this a nested error logs as {}
+      const entries = value instanceof Error
+        ? Object.entries({ name: value.name, message: value.message, stack: value.stack, ...value })
+        : Object.entries(value);
+      const out: Record<string, unknown> = {};
+      for (const [key, item] of entries) out[key] = this.redactValue(item, key, ancestors, depth + 1);
+      return out;
+    } finally {
+      ancestors.delete(value);
+    }
+  }
+
+  // 'user.email', 'user_email' and 'userEmail' all end in 'email'
+  private actionFor(normalized: string): RedactionAction | undefined {
+    for (const [field, action] of this.fields) {
+      if (normalized.endsWith(field)) return action;
+    }
+    return undefined;
+  }
+
+  // Free text (messages, error.message, stack traces) is where PII hides
+  private scrub(text: string): string {
+    let result = text;
+    for (const detector of this.detectors) {
+      result = result.replace(detector.pattern, match =>
+        !detector.check || detector.check(match) ? `[REDACTED:${detector.name}]` : match);
+    }
+    return result;
+  }
+
+  private hash(value: unknown): string {
+    const raw = typeof value === 'string' ? value.trim().toLowerCase() : JSON.stringify(value);
+    return `hash:${createHmac('sha256', this.hashSalt).update(raw).digest('hex').slice(0, 16)}`;
+  }
+}
+
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// On by default for every Logger and Tracer; pass your own Redactor to extend the allowlist
+export const defaultRedactor = new Redactor();
+
+// ✅ BETTER: Structured JSON logs you can query
+// `grep "Payment failed"` works for one server; "all failed payments for user X in the
+// last hour" needs fields. Every line is JSON with a level, an event name and context.
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [field: string]: any;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+export class StdoutSink implements LogSink {
+  write(record: LogRecord): void {
+    process.stdout.write(JSON.stringify(record) + '\n');
+  }
+}
+
+// app.log → app.log.1 → app.log.2 ... so logs never fill the disk
+export class RotatingFileSink implements LogSink {
+  constructor(
+    private path: string,
+    private maxBytes: number = 10 * 1024 * 1024,
+    private maxFiles: number = 5
+  ) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  write(record: LogRecord): void {
+    const line = JSON.stringify(record) + '\n';
+    if (existsSync(this.path) && statSync(this.path).size + line.length > this.maxBytes) {
+      this.rotate();
+    }
+    appendFileSync(this.path, line);
+  }
+
+  private rotate(): void {
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = i === 1 ? this.path : `${this.path}.${i - 1}`;
+      if (existsSync(from)) renameSync(from, `${this.path}.${i}`);
+    }
+  }
+}
+
+// Request/trace IDs follow the request through every await - no need to pass them around
+interface RequestContext {
+  requestId: string;
+  traceId: string;
+  [field: string]: any;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: Partial<RequestContext>, fn: () => T): T {
+  return requestContext.run(
+    { requestId: context.requestId || randomUUID(), traceId: context.traceId || randomBytes(16).toString('hex'), ...context },
+    fn
+  );
+}
+
+export function currentRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+export class Logger {
+  constructor(
+    private sinks: LogSink[] = [new StdoutSink()],
+    private minLevel: LogLevel = 'info',
+    private fields: Record<string, any> = {},
+    private redactor: Redactor = defaultRedactor
+  ) {}
+
+  // Bind fields once (userId, paymentId...) instead of repeating them on every line
+  child(fields: Record<string, any>): Logger {
+    return new Logger(this.sinks, this.minLevel, { ...this.fields, ...fields }, this.redactor);
+  }
+
+  debug(msg: string, fields: Record<string, any> = {}): void { this.log('debug', msg, fields); }
+  info(msg: string, fields: Record<string, any> = {}): void { this.log('info', msg, fields); }
+  warn(msg: string, fields: Record<string, any> = {}): void { this.log('warn', msg, fields); }
+  error(msg: string, fields: Record<string, any> = {}): void { this.log('error', msg, fields); }
+
+  private log(level: LogLevel, msg: string, fields: Record<string, any>): void {
+    if (LOG_LEVELS[level] < LOG_LEVELS[this.minLevel]) return;
+
+    let record: LogRecord;
+    try {
+      record = this.redactor.redact({
+        time: new Date().toISOString(),
+        level,
+        msg,
+        release: RELEASE_VERSION,
+        ...currentRequestContext(),
+        ...spanIds(),
+        ...this.fields,
+        ...serializeErrors(fields)
+      });
+    } catch (error) {
+      // Fields we can't redact are fields we don't write - but the line itself still goes out
+      record = { time: new Date().toISOString(), level, msg: this.redactor.redact(msg), release: RELEASE_VERSION, logError: `fields dropped: ${error.message}` };
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(record);
+      } catch {
+        // A broken log sink must never break the request
+      }
+    }
+  }
+}
+
+// Jump from a log line straight to its trace
+function spanIds(): Record<string, string> {
+  const span = activeSpan();
+  return span ? { traceId: span.traceId, spanId: span.spanId } : {};
+}
+
+// JSON.stringify(new Error()) is "{}" - keep the useful parts
+function serializeErrors(fields: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    out[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+  }
+  return out;
+}
+
+// ✅ BETTER: Golden signals as metrics - latency, errors, throughput, saturation
+// Logs tell you what happened to one request; metrics tell you what's happening to all of them.
+export type MetricLabels = Record<string, string>;
+
+const OVERFLOW_LABEL = '__overflow__';
+
+// Every label combination is a separate series - `userId` as a label would create millions
+abstract class Metric<S> {
+  protected series = new Map<string, { labels: MetricLabels; state: S }>();
+  overflowCount = 0;
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[],
+    private maxSeries: number
+  ) {}
+
+  protected abstract initialState(): S;
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+  abstract render(constLabels: MetricLabels): string[];
+
+  protected seriesFor(labels: MetricLabels): S {
+    for (const key of Object.keys(labels)) {
+      if (!this.labelNames.includes(key)) {
+        throw new Error(`Metric ${this.name} has no label "${key}"`);
+      }
+    }
+
+    const key = this.labelNames.map(name => labels[name] ?? '').join('\u0000');
+    const existing = this.series.get(key);
+    if (existing) return existing.state;
+
+    if (this.series.size >= this.maxSeries) {
+      // Over the limit: fold new combinations into one series instead of eating memory
+      this.overflowCount++;
+      const overflowKey = this.labelNames.map(() => OVERFLOW_LABEL).join('\u0000');
+      const overflow = this.series.get(overflowKey);
+      if (overflow) return overflow.state;
+      return this.createSeries(overflowKey, Object.fromEntries(this.labelNames.map(name => [name, OVERFLOW_LABEL])));
+    }
+
+    return this.createSeries(key, labels);
+  }
+
+  private createSeries(key: string, labels: MetricLabels): S {
+    const entry = { labels: { ...labels }, state: this.initialState() };
+    this.series.set(key, entry);
+    return entry.state;
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  protected initialState() {
+    return { value: 0 };
+  }
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} can only go up`);
+    this.seriesFor(labels).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.seriesFor(labels).value;
+  }
+
+  render(constLabels: MetricLabels): string[] {
+    return [...this.series.values()].map(({ labels, state }) => `${this.name}${formatLabels({ ...constLabels, ...labels })} ${state.value}`);
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+
+  protected initialState() {
+    return { value: 0 };
+  }
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.seriesFor(labels).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    this.seriesFor(labels).value += amount;
+  }
+
+  dec(labels: MetricLabels = {}, amount: number = 1): void {
+    this.seriesFor(labels).value -= amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.seriesFor(labels).value;
+  }
+
+  render(constLabels: MetricLabels): string[] {
+    return [...this.series.values()].map(({ labels, state }) => `${this.name}${formatLabels({ ...constLabels, ...labels })} ${state.value}`);
+  }
+}
+
+// Seconds, from 5ms to 10s - covers "fast API" through "payment provider having a bad day"
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: string[], maxSeries: number, readonly bucketBounds: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help, labelNames, maxSeries);
+  }
+
+  protected initialState() {
+    return { buckets: this.bucketBounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const state = this.seriesFor(labels);
+    const index = this.bucketBounds.findIndex(bound => value <= bound);
+    if (index >= 0) state.buckets[index]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  render(constLabels: MetricLabels): string[] {
+    const lines: string[] = [];
+    for (const { labels: seriesLabels, state } of this.series.values()) {
+      const labels = { ...constLabels, ...seriesLabels };
+      let cumulative = 0;
+      this.bucketBounds.forEach((bound, i) => {
+        cumulative += state.buckets[i];
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${state.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${state.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    }
+    return lines;
+  }
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
+
+export interface MetricOptions {
+  labelNames?: string[];
+  maxSeries?: number;
+}
+
+// One finished call, as seen by instrument() - what SLOs and canaries are computed from
+export interface Observation {
+  name: string;
+  release: string;
+  labels: MetricLabels;
+  durationMs: number;
+  ok: boolean;
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<any>>();
+  private observationListeners: Array<(observation: Observation) => void> = [];
+
+  constructor(
+    private defaultMaxSeries: number = 100,
+    readonly constLabels: MetricLabels = { release: RELEASE_VERSION } // added to every series
+  ) {}
+
+  onObservation(listener: (observation: Observation) => void): void {
+    this.observationListeners.push(listener);
+  }
+
+  emitObservation(observation: Observation): void {
+    for (const listener of this.observationListeners) {
+      try {
+        listener(observation);
+      } catch {
+        // A broken listener must never fail the call it's observing
+      }
+    }
+  }
+
+  counter(name: string, help: string, options: MetricOptions = {}): Counter {
+    return this.getOrCreate(name, 'counter', () =>
+      new Counter(name, help, options.labelNames || [], options.maxSeries ?? this.defaultMaxSeries));
+  }
+
+  gauge(name: string, help: string, options: MetricOptions = {}): Gauge {
+    return this.getOrCreate(name, 'gauge', () =>
+      new Gauge(name, help, options.labelNames || [], options.maxSeries ?? this.defaultMaxSeries));
+  }
+
+  histogram(name: string, help: string, options: MetricOptions & { buckets?: number[] } = {}): Histogram {
+    return this.getOrCreate(name, 'histogram', () =>
+      new Histogram(name, help, options.labelNames || [], options.maxSeries ?? this.defaultMaxSeries, options.buckets));
+  }
+
+  private getOrCreate<M extends Metric<any>>(name: string, type: M['type'], create: () => M): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      return existing as M;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+
+  // Prometheus text exposition format
+  render(): string {
+    const lines: string[] = [];
+    const overflows: string[] = [];
+
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render(this.constLabels));
+      if (metric.overflowCount > 0) {
+        overflows.push(`metrics_cardinality_overflow_total${formatLabels({ metric: metric.name })} ${metric.overflowCount}`);
+      }
+    }
+
+    if (overflows.length > 0) {
+      lines.push('# HELP metrics_cardinality_overflow_total Writes folded into the overflow series by the label cardinality limit');
+      lines.push('# TYPE metrics_cardinality_overflow_total counter');
+      lines.push(...overflows);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // GET /metrics for the Prometheus scraper
+  serve(port: number): Server {
+    return createServer((req, res) => {
+      if (req.method === 'GET' && req.url === '/metrics') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(this.render());
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    }).listen(port);
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// Wrap any async function and get all four golden signals for free:
+// <name>_requests_total{outcome} (throughput + errors), <name>_duration_seconds (latency),
+// <name>_in_flight (saturation)
+export function instrument<A extends any[], R>(
+  registry: MetricsRegistry,
+  name: string,
+  fn: (...args: A) => Promise<R>,
+  labels: MetricLabels = {}
+): (...args: A) => Promise<R> {
+  const labelNames = Object.keys(labels);
+  const requests = registry.counter(`${name}_requests_total`, `Calls to ${name} by outcome`, { labelNames: [...labelNames, 'outcome'] });
+  const duration = registry.histogram(`${name}_duration_seconds`, `Latency of ${name} in seconds`, { labelNames: [...labelNames, 'outcome'] });
+  const inFlight = registry.gauge(`${name}_in_flight`, `Calls to ${name} currently running`, { labelNames });
+
+  return async (...args: A) => {
+    const start = process.hrtime.bigint();
+    inFlight.inc(labels);
+    let outcome = 'success';
+    try {
+      return await fn(...args);
+    } catch (error) {
+      outcome = 'error';
+      throw error;
+    } finally {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      inFlight.dec(labels);
+      requests.inc({ ...labels, outcome });
+      duration.observe(seconds, { ...labels, outcome });
+      registry.emitObservation({ name, release: registry.constLabels.release || RELEASE_VERSION, labels, durationMs: seconds * 1000, ok: outcome === 'success' });
+    }
+  };
+}
+
+// ✅ BETTER: SLOs + error budgets - "is it good enough?" as a number, not a feeling
+// "99.9% of charges succeed over 30 days" leaves a 0.1% budget for failures.
+// Budget left → ship. Budget spent → stop shipping features, fix reliability.
+export type SloObjective =
+  | { type: 'availability' }                 // good = call didn't error
+  | { type: 'latency'; thresholdMs: number }; // good = call finished under the threshold
+
+export interface SloDefinition {
+  name: string;
+  metric: string;     // name passed to instrument(), e.g. 'payment_charge'
+  objective: SloObjective;
+  target: number;     // 0.999 = 99.9% of events must be good
+  windowMs: number;
+}
+
+export interface SloReport {
+  name: string;
+  target: number;
+  sli: number;                    // actual good ratio over the window
+  totalEvents: number;
+  badEvents: number;
+  errorBudgetRemaining: number;   // 1 = untouched, 0 = spent, negative = overspent
+  burnRate: { '1h': number; '6h': number }; // 1 = spending exactly on schedule
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// p95 < 300ms and < 1% errors, written the way the SLO math wants it
+export const PAYMENT_SLOS: SloDefinition[] = [
+  { name: 'payment-availability', metric: 'payment_charge', objective: { type: 'availability' }, target: 0.99, windowMs: 30 * DAY_MS },
+  { name: 'payment-latency-p95', metric: 'payment_charge', objective: { type: 'latency', thresholdMs: 300 }, target: 0.95, windowMs: 30 * DAY_MS }
+];
+
+interface SloBucket {
+  total: number;
+  errors: number;
+  slowerThan: Map<number, number>; // thresholdMs → calls over it
+}
+
+const SLO_BUCKET_MS = 60 * 1000;
+
+export class SloEngine {
+  // Per-minute counts instead of raw events: 30 days is ~43k buckets per metric, not millions of rows
+  private buckets = new Map<string, Map<number, SloBucket>>();
+
+  constructor(
+    private definitions: SloDefinition[],
+    private now: () => number = Date.now
+  ) {}
+
+  // Feed from every instrument()ed call on the registry
+  attach(registry: MetricsRegistry): this {
+    registry.onObservation(observation => this.record(observation.name, observation.durationMs, observation.ok));
+    return this;
+  }
+
+  record(metric: string, durationMs: number, ok: boolean, time: number = this.now()): void {
+    const relevant = this.definitions.filter(definition => definition.metric === metric);
+    if (relevant.length === 0) return;
+
+    if (!this.buckets.has(metric)) this.buckets.set(metric, new Map());
+    const series = this.buckets.get(metric)!;
+    const bucketStart = time - (time % SLO_BUCKET_MS);
+    let bucket = series.get(bucketStart);
+    if (!bucket) {
+      bucket = { total: 0, errors: 0, slowerThan: new Map() };
+      series.set(bucketStart, bucket);
+      this.prune(metric, series);
+    }
+
+    bucket.total++;
+    if (!ok) bucket.errors++;
+    for (const definition of relevant) {
+      if (definition.objective.type === 'latency' && durationMs > definition.objective.thresholdMs) {
+        const threshold = definition.objective.thresholdMs;
+        bucket.slowerThan.set(threshold, (bucket.slowerThan.get(threshold) || 0) + 1);
+      }
+    }
+  }
+
+  // Bad-event ratio for one SLO over the trailing window
+  errorRatio(name: string, windowMs: number): { total: number; bad: number; ratio: number } {
+    const definition = this.definition(name);
+    const since = this.now() - windowMs;
+    let total = 0;
+    let bad = 0;
+
+    for (const [bucketStart, bucket] of this.buckets.get(definition.metric) || []) {
+      if (bucketStart + SLO_BUCKET_MS <= since) continue;
+      total += bucket.total;
+      bad += definition.objective.type === 'availability'
+        ? bucket.errors
+        : bucket.slowerThan.get(definition.objective.thresholdMs) || 0;
+    }
+
+    return { total, bad, ratio: total === 0 ? 0 : bad / total };
+  }
+
+  // How many times faster than "exactly on budget" we're failing right now
+  burnRate(name: string, windowMs: number): number {
+    const definition = this.definition(name);
+    return this.errorRatio(name, windowMs).ratio / (1 - definition.target);
+  }
+
+  report(): SloReport[] {
+    return this.definitions.map(definition => {
+      const { total, bad, ratio } = this.errorRatio(definition.name, definition.windowMs);
+      return {
+        name: definition.name,
+        target: definition.target,
+        sli: 1 - ratio,
+        totalEvents: total,
+        badEvents: bad,
+        errorBudgetRemaining: 1 - ratio / (1 - definition.target),
+        burnRate: {
+          '1h': this.burnRate(definition.name, 60 * 60 * 1000),
+          '6h': this.burnRate(definition.name, 6 * 60 * 60 * 1000)
+        }
+      };
+    });
+  }
+
+  // Release gate for CI/CD: no budget, no deploy (rollbacks and fixes go through anyway)
+  canRelease(): { allowed: boolean; reasons: string[] } {
+    const reasons = this.report()
+      .filter(report => report.errorBudgetRemaining <= 0)
+      .map(report =>
+        `${report.name}: error budget exhausted (SLI ${(report.sli * 100).toFixed(3)}% < target ${(report.target * 100).toFixed(3)}%)`);
+    return { allowed: reasons.length === 0, reasons };
+  }
+
+  private definition(name: string): SloDefinition {
+    const definition = this.definitions.find(d => d.name === name);
+    if (!definition) throw new Error(`Unknown SLO: ${name}`);
+    return definition;
+  }
+
+  private prune(metric: string, series: Map<number, SloBucket>): void {
+    const longestWindow = Math.max(...this.definitions.filter(d => d.metric === metric).map(d => d.windowMs));
+    const cutoff = this.now() - longestWindow - SLO_BUCKET_MS;
+    for (const bucketStart of series.keys()) {
+      if (bucketStart < cutoff) series.delete(bucketStart);
+    }
+  }
+}
+
+export const PRICE_SLOS: SloDefinition[] = [
+  { name: 'price-availability', metric: 'price_fetch', objective: { type: 'availability' }, target: 0.99, windowMs: 7 * DAY_MS },
+  { name: 'price-latency', metric: 'price_fetch', objective: { type: 'latency', thresholdMs: 1000 }, target: 0.95, windowMs: 7 * DAY_MS }
+];
+
+export const slos = new SloEngine([...PAYMENT_SLOS, ...PRICE_SLOS]).attach(metrics);
 
-      stepStart = Date.now();
-      const paymentResult = await this.processPayment(user, amount);
-      console.log(`💳 Payment processed in ${Date.now() - stepStart}ms: ${paymentResult.status}`);
+// In the deploy pipeline:
+// const gate = slos.canRelease();
+// if (!gate.allowed) { console.error(gate.reasons.join('\n')); process.exit(1); }
 
-      stepStart = Date.now();
-      await this.updateDatabase(userId, paymentResult);
-      console.log(`💾 Database updated in ${Date.now() - stepStart}ms`);
+// ✅ BETTER: Alerts that page on user pain, not on every blip
+// Dashboards only help if someone is looking. Alert rules watch the same signals 24/7.
+export type AlertSeverity = 'page' | 'ticket';
 
-      const totalTime = Date.now() - startTime;
-      console.log(`✅ Payment completed in ${totalTime}ms for ${userId}`);
+interface AlertRuleBase {
+  name: string;
+  severity: AlertSeverity;
+  labels: Record<string, string>; // `service` is used for grouping
+  summary: string;
+}
+
+// "Price fetch errors above 20% over 5 minutes, for 2 minutes straight"
+export interface ThresholdRule extends AlertRuleBase {
+  type: 'threshold';
+  query: () => number;
+  above: number;
+  forMs?: number; // must stay above this long before firing - filters out single spikes
+}
+
+// Google SRE multi-window burn rate: long window proves it's real, short window proves it's still happening
+export interface BurnRateRule extends AlertRuleBase {
+  type: 'burn-rate';
+  slo: string;
+  windows: Array<{ longMs: number; shortMs: number; factor: number }>;
+}
+
+export type AlertRule = ThresholdRule | BurnRateRule;
+
+export interface Alert {
+  rule: string;
+  severity: AlertSeverity;
+  labels: Record<string, string>;
+  summary: string;
+  status: 'firing' | 'resolved';
+  value: number;
+  startsAt: string;
+  endsAt?: string;
+}
 
+export interface AlertNotification {
+  group: string;
+  alerts: Alert[];
+}
+
+export interface AlertNotifier {
+  notify(notification: AlertNotification): Promise<void>;
+}
+
+// Point it at Slack/PagerDuty/Alertmanager - or at a local HTTP server in tests
+export class WebhookNotifier implements AlertNotifier {
+  constructor(private url: string, private timeoutMs: number = 5000) {}
+
+  async notify(notification: AlertNotification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    if (!response.ok) throw new Error(`Webhook returned ${response.status}`);
+  }
+}
+
+export class FileNotifier implements AlertNotifier {
+  constructor(private path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  async notify(notification: AlertNotification): Promise<void> {
+    appendFileSync(this.path, JSON.stringify(notification) + '\n');
+  }
+}
+
+interface AlertState {
+  pendingSince?: number;
+  firing?: Alert;
+  lastNotifiedAt?: number; // last time a notifier actually took it
+  resolved?: Alert;        // resolve notice nobody has accepted yet - resent every evaluation
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class AlertEngine {
+  private states = new Map<string, AlertState>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private rules: AlertRule[],
+    private slos: SloEngine,
+    private notifiers: AlertNotifier[],
+    private logger: Logger = new Logger(),
+    private repeatIntervalMs: number = 4 * HOUR_MS, // still broken? remind, but not every minute
+    private now: () => number = Date.now
+  ) {}
+
+  async evaluate(): Promise<Alert[]> {
+    const now = this.now();
+    const toNotify: Alert[] = [];
+
+    for (const rule of this.rules) {
+      const { breached, value } = this.check(rule);
+      const state = this.states.get(rule.name) || {};
+      this.states.set(rule.name, state);
+
+      if (!breached) {
+        state.pendingSince = undefined;
+        if (state.firing) {
+          state.resolved = { ...state.firing, status: 'resolved', value, endsAt: new Date(now).toISOString() };
+          state.firing = undefined;
+          state.lastNotifiedAt = undefined;
+        }
+        if (state.resolved) toNotify.push({ ...state.resolved });
+        continue;
+      }
+      state.resolved = undefined; // Broken again before the resolve went out - the firing alert says it all
+
+      state.pendingSince ??= now;
+      const forMs = rule.type === 'threshold' ? rule.forMs || 0 : 0;
+      if (now - state.pendingSince < forMs) continue;
+
+      if (!state.firing) {
+        state.firing = {
+          rule: rule.name,
+          severity: rule.severity,
+          labels: rule.labels,
+          summary: rule.summary,
+          status: 'firing',
+          value,
+          startsAt: new Date(now).toISOString()
+        };
+      }
+      state.firing.value = value;
+
+      // Dedup: already told someone, and it's not time for a reminder yet
+      if (state.lastNotifiedAt !== undefined && now - state.lastNotifiedAt < this.repeatIntervalMs) continue;
+      toNotify.push({ ...state.firing });
+    }
+
+    // Only what a notifier accepted counts as sent - a failed page goes out again next evaluation
+    const delivered = await this.deliver(toNotify);
+    for (const alert of toNotify) {
+      const state = this.states.get(alert.rule)!;
+      if (!delivered.has(alert.rule)) continue;
+      if (alert.status === 'resolved') state.resolved = undefined;
+      else state.lastNotifiedAt = now;
+    }
+
+    return this.firing();
+  }
+
+  firing(): Alert[] {
+    return [...this.states.values()].filter(state => state.firing).map(state => ({ ...state.firing! }));
+  }
+
+  start(intervalMs: number = 60 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.evaluate().catch(error => this.logger.error('alerts.evaluation_failed', { error }));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private check(rule: AlertRule): { breached: boolean; value: number } {
+    if (rule.type === 'threshold') {
+      const value = rule.query();
+      return { breached: value > rule.above, value };
+    }
+
+    let worst = 0;
+    for (const window of rule.windows) {
+      const long = this.slos.burnRate(rule.slo, window.longMs);
+      const short = this.slos.burnRate(rule.slo, window.shortMs);
+      if (long > window.factor && short > window.factor) {
+        return { breached: true, value: long };
+      }
+      worst = Math.max(worst, Math.min(long, short));
+    }
+    return { breached: false, value: worst };
+  }
+
+  // Group: one message per service per evaluation, not one per rule
+  // Returns the rules whose group reached at least one notifier
+  private async deliver(alerts: Alert[]): Promise<Set<string>> {
+    const groups = new Map<string, Alert[]>();
+    for (const alert of alerts) {
+      const group = alert.labels.service || 'default';
+      groups.set(group, [...(groups.get(group) || []), alert]);
+    }
+
+    const delivered = new Set<string>();
+    for (const [group, groupAlerts] of groups) {
+      let accepted = this.notifiers.length === 0;
+      for (const notifier of this.notifiers) {
+        try {
+          await notifier.notify({ group, alerts: groupAlerts });
+          accepted = true;
+        } catch (error) {
+          this.logger.error('alerts.notify_failed', { group, rules: groupAlerts.map(a => a.rule).join(','), error });
+        }
+      }
+      if (accepted) groupAlerts.forEach(alert => delivered.add(alert.rule));
+    }
+    return delivered;
+  }
+}
+
+// 30-day SLOs: burning 14.4x for an hour eats 2% of the budget - wake someone up
+const PAGE_WINDOWS = [
+  { longMs: 1 * HOUR_MS, shortMs: 5 * 60 * 1000, factor: 14.4 },
+  { longMs: 6 * HOUR_MS, shortMs: 30 * 60 * 1000, factor: 6 }
+];
+const TICKET_WINDOWS = [
+  { longMs: 72 * HOUR_MS, shortMs: 6 * HOUR_MS, factor: 1 }
+];
+
+// Built against an SloEngine so the threshold queries read the same data the engine evaluates
+export function exampleAlertRules(slos: SloEngine): AlertRule[] {
+  return [
+    { name: 'PaymentErrorBudgetBurn', type: 'burn-rate', slo: 'payment-availability', windows: PAGE_WINDOWS,
+      severity: 'page', labels: { service: 'payments' }, summary: 'Charges are failing fast enough to exhaust the monthly budget' },
+    { name: 'PaymentLatencyBudgetBurn', type: 'burn-rate', slo: 'payment-latency-p95', windows: PAGE_WINDOWS,
+      severity: 'page', labels: { service: 'payments' }, summary: 'Too many charges slower than 300ms' },
+    { name: 'PaymentSlowBurn', type: 'burn-rate', slo: 'payment-availability', windows: TICKET_WINDOWS,
+      severity: 'ticket', labels: { service: 'payments' }, summary: 'Payment error budget is slowly draining' },
+    { name: 'PriceFetchErrors', type: 'threshold', query: () => slos.errorRatio('price-availability', 5 * 60 * 1000).ratio,
+      above: 0.2, forMs: 2 * 60 * 1000, severity: 'page', labels: { service: 'prices' }, summary: 'Over 20% of price fetches failing' },
+    { name: 'PriceFetchSlow', type: 'threshold', query: () => slos.errorRatio('price-latency', 5 * 60 * 1000).ratio,
+      above: 0.05, forMs: 5 * 60 * 1000, severity: 'ticket', labels: { service: 'prices' }, summary: 'Over 5% of price fetches slower than 1s' }
+  ];
+}
+
+export const EXAMPLE_ALERT_RULES = exampleAlertRules(slos);
+
+// const alerts = new AlertEngine(EXAMPLE_ALERT_RULES, slos, [
+//   new WebhookNotifier(process.env.ALERT_WEBHOOK_URL!),
+//   new FileNotifier('./alerts/notifications.jsonl')
+// ]);
+// alerts.start();
+
+// ✅ BETTER: Canary analysis - let the numbers decide if the new release stays
+// Send a slice of traffic to the new version, compare it to the old one on the same golden signals,
+// and roll back automatically when it's measurably worse.
+export type CanaryResult = 'pass' | 'fail' | 'inconclusive';
+
+export interface CohortStats {
+  cohort: string;
+  samples: number;
+  errorRate: number;
+  medianMs: number;
+  p95Ms: number;
+}
+
+export interface CanaryVerdict {
+  result: CanaryResult;
+  reasons: string[];
+  baseline: CohortStats;
+  canary: CohortStats;
+}
+
+export interface CanaryOptions {
+  windowMs?: number;
+  minSamples?: number;           // below this per cohort, we don't know yet
+  zCritical?: number;            // 2.33 ≈ 99% one-sided confidence the canary is worse
+  maxErrorRateIncrease?: number; // absolute, 0.005 = half a percentage point
+  maxLatencyIncrease?: number;   // relative median increase, 0.1 = 10% slower
+  maxSamples?: number;
+}
+
+interface CanarySample {
+  time: number;
+  durationMs: number;
+  ok: boolean;
+}
+
+export class CanaryAnalyzer {
+  private samples = new Map<string, CanarySample[]>();
+  private failHooks: Array<(verdict: CanaryVerdict) => void | Promise<void>> = [];
+  private lastResult: CanaryResult | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private options: Required<CanaryOptions>;
+
+  constructor(
+    private metric: string,
+    private cohorts: { baseline: string; canary: string; cohortOf?: (observation: Observation) => string | undefined },
+    options: CanaryOptions = {},
+    private logger: Logger = new Logger(),
+    private now: () => number = Date.now
+  ) {
+    this.options = {
+      windowMs: 30 * 60 * 1000,
+      minSamples: 50,
+      zCritical: 2.33,
+      maxErrorRateIncrease: 0.005,
+      maxLatencyIncrease: 0.1,
+      maxSamples: 10000,
+      ...options
+    };
+  }
+
+  // Cohort defaults to the release version; pass cohortOf to compare e.g. provider variants instead
+  attach(registry: MetricsRegistry): this {
+    const cohortOf = this.cohorts.cohortOf || ((observation: Observation) => observation.release);
+    registry.onObservation(observation => {
+      if (observation.name !== this.metric) return;
+      const cohort = cohortOf(observation);
+      if (cohort) this.record(cohort, observation.durationMs, observation.ok);
+    });
+    return this;
+  }
+
+  record(cohort: string, durationMs: number, ok: boolean, time: number = this.now()): void {
+    if (cohort !== this.cohorts.baseline && cohort !== this.cohorts.canary) return;
+    const samples = this.samples.get(cohort) || [];
+    samples.push({ time, durationMs, ok });
+    if (samples.length > this.options.maxSamples) samples.shift();
+    this.samples.set(cohort, samples);
+  }
+
+  onFail(hook: (verdict: CanaryVerdict) => void | Promise<void>): this {
+    this.failHooks.push(hook);
+    return this;
+  }
+
+  analyze(): CanaryVerdict {
+    const baselineSamples = this.window(this.cohorts.baseline);
+    const canarySamples = this.window(this.cohorts.canary);
+    const baseline = cohortStats(this.cohorts.baseline, baselineSamples);
+    const canary = cohortStats(this.cohorts.canary, canarySamples);
+    const { minSamples, zCritical, maxErrorRateIncrease, maxLatencyIncrease } = this.options;
+
+    if (baseline.samples < minSamples || canary.samples < minSamples) {
+      return {
+        result: 'inconclusive',
+        reasons: [`Need ${minSamples} samples per cohort (baseline ${baseline.samples}, canary ${canary.samples})`],
+        baseline,
+        canary
+      };
+    }
+
+    const reasons: string[] = [];
+
+    // Errors: two-proportion z-test, and the difference has to matter - not just be significant
+    const errorZ = twoProportionZ(
+      baselineSamples.filter(s => !s.ok).length, baseline.samples,
+      canarySamples.filter(s => !s.ok).length, canary.samples
+    );
+    if (errorZ > zCritical && canary.errorRate - baseline.errorRate > maxErrorRateIncrease) {
+      reasons.push(`Error rate ${(canary.errorRate * 100).toFixed(2)}% vs baseline ${(baseline.errorRate * 100).toFixed(2)}% (z=${errorZ.toFixed(2)})`);
+    }
+
+    // Latency: Mann-Whitney U - no assumption that latencies are normally distributed (they never are)
+    const latencyZ = mannWhitneyZ(baselineSamples.map(s => s.durationMs), canarySamples.map(s => s.durationMs));
+    if (latencyZ > zCritical && canary.medianMs > baseline.medianMs * (1 + maxLatencyIncrease)) {
+      reasons.push(`Median latency ${canary.medianMs.toFixed(0)}ms vs baseline ${baseline.medianMs.toFixed(0)}ms (z=${latencyZ.toFixed(2)})`);
+    }
+
+    if (reasons.length > 0) return { result: 'fail', reasons, baseline, canary };
+    return { result: 'pass', reasons: ['No significant regression in error rate or latency'], baseline, canary };
+  }
+
+  // Analyze and run the rollback hooks on the first failing verdict
+  async check(): Promise<CanaryVerdict> {
+    const verdict = this.analyze();
+    if (verdict.result !== this.lastResult) {
+      this.logger.info('canary.verdict', { metric: this.metric, result: verdict.result, reasons: verdict.reasons });
+    }
+
+    if (verdict.result === 'fail' && this.lastResult !== 'fail') {
+      for (const hook of this.failHooks) {
+        try {
+          await hook(verdict);
+        } catch (error) {
+          this.logger.error('canary.rollback_hook_failed', { metric: this.metric, error });
+        }
+      }
+    }
+
+    this.lastResult = verdict.result;
+    return verdict;
+  }
+
+  start(intervalMs: number = 60 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch(error => this.logger.error('canary.check_failed', { error }));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private window(cohort: string): CanarySample[] {
+    const since = this.now() - this.options.windowMs;
+    return (this.samples.get(cohort) || []).filter(sample => sample.time >= since);
+  }
+}
+
+function cohortStats(cohort: string, samples: CanarySample[]): CohortStats {
+  const latencies = samples.map(s => s.durationMs).sort((a, b) => a - b);
+  const at = (q: number) => latencies.length === 0 ? 0 : latencies[Math.min(latencies.length - 1, Math.floor(q * latencies.length))];
+  return {
+    cohort,
+    samples: samples.length,
+    errorRate: samples.length === 0 ? 0 : samples.filter(s => !s.ok).length / samples.length,
+    medianMs: at(0.5),
+    p95Ms: at(0.95)
+  };
+}
+
+// Positive z = canary fails more often than baseline
+function twoProportionZ(baselineBad: number, baselineTotal: number, canaryBad: number, canaryTotal: number): number {
+  const pooled = (baselineBad + canaryBad) / (baselineTotal + canaryTotal);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / baselineTotal + 1 / canaryTotal));
+  if (standardError === 0) return 0;
+  return (canaryBad / canaryTotal - baselineBad / baselineTotal) / standardError;
+}
+
+// Positive z = canary latencies rank higher (slower) than baseline
+function mannWhitneyZ(baseline: number[], canary: number[]): number {
+  const all = [
+    ...baseline.map(value => ({ value, canary: false })),
+    ...canary.map(value => ({ value, canary: true }))
+  ].sort((a, b) => a.value - b.value);
+
+  // Average ranks across ties
+  let canaryRankSum = 0;
+  for (let i = 0; i < all.length;) {
+    let j = i;
+    while (j < all.length && all[j].value === all[i].value) j++;
+    const rank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) if (all[k].canary) canaryRankSum += rank;
+    i = j;
+  }
+
+  const n1 = canary.length;
+  const n2 = baseline.length;
+  const u = canaryRankSum - (n1 * (n1 + 1)) / 2;
+  const standardDeviation = Math.sqrt((n1 * n2 * (n1 + n2 + 1)) / 12);
+  return standardDeviation === 0 ? 0 : (u - (n1 * n2) / 2) / standardDeviation;
+}
+
+// ✅ BETTER: Spans instead of stepStart variables
+// A trace shows every step of one request - across services - as a parent/child tree.
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes: SpanAttributes;
+}
+
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: { code: 'unset' | 'ok' | 'error'; message?: string };
+}
+
+export class Span {
+  readonly spanId = randomBytes(8).toString('hex');
+  readonly startTime = Date.now();
+  private attributes: SpanAttributes = {};
+  private events: SpanEvent[] = [];
+  private status: SpanData['status'] = { code: 'unset' };
+  private endTime?: number;
+
+  constructor(
+    readonly name: string,
+    readonly traceId: string,
+    readonly parentSpanId: string | undefined,
+    private onEnd: (span: SpanData) => void
+  ) {}
+
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    this.events.push({ name, time: Date.now(), attributes });
+    return this;
+  }
+
+  recordException(error: any): this {
+    this.addEvent('exception', { 'exception.type': error?.name || 'Error', 'exception.message': error?.message || String(error) });
+    return this.setStatus('error', error?.message);
+  }
+
+  setStatus(code: 'ok' | 'error', message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  // W3C trace context: version-traceId-spanId-flags
+  traceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-01`;
+  }
+
+  end(): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = Date.now();
+    this.onEnd({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: this.status
+    });
+  }
+}
+
+export function parseTraceparent(header: string | null | undefined): { traceId: string; spanId: string } | null {
+  const match = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/.exec((header || '').trim());
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void> | void;
+}
+
+// OTLP/JSON - the format every collector and tracing backend already speaks
+export function toOtlpJson(serviceName: string, spans: SpanData[]) {
+  const attributes = (attrs: SpanAttributes) => Object.entries(attrs).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string' ? { stringValue: value }
+      : typeof value === 'boolean' ? { boolValue: value }
+      : Number.isInteger(value) ? { intValue: String(value) }
+      : { doubleValue: value }
+  }));
+  const nanos = (ms: number) => String(BigInt(ms) * 1000000n);
+
+  return {
+    resourceSpans: [{
+      resource: { attributes: attributes({ 'service.name': serviceName }) },
+      scopeSpans: [{
+        scope: { name: serviceName },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          parentSpanId: span.parentSpanId,
+          name: span.name,
+          kind: 1,
+          startTimeUnixNano: nanos(span.startTime),
+          endTimeUnixNano: nanos(span.endTime),
+          attributes: attributes(span.attributes),
+          events: span.events.map(event => ({ name: event.name, timeUnixNano: nanos(event.time), attributes: attributes(event.attributes) })),
+          status: { code: { unset: 0, ok: 1, error: 2 }[span.status.code], message: span.status.message }
+        }))
+      }]
+    }]
+  };
+}
+
+export type OtlpSpan = ReturnType<typeof toOtlpJson>['resourceSpans'][number]['scopeSpans'][number]['spans'][number];
+
+// One OTLP-JSON document per line - `jq` it locally, or ship the file to a collector later.
+// Nothing touches the disk until the first span; rotates like RotatingFileSink
+export class OtlpJsonFileExporter implements SpanExporter {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private path: string,
+    private serviceName: string,
+    private maxBytes: number = 10 * 1024 * 1024,
+    private maxFiles: number = 5
+  ) {}
+
+  export(spans: SpanData[]): Promise<void> {
+    const line = JSON.stringify(toOtlpJson(this.serviceName, spans)) + '\n';
+    // One write at a time, in order - rotation must not race an append
+    this.writes = this.writes.catch(() => undefined).then(() => this.append(line));
+    return this.writes;
+  }
+
+  private async append(line: string): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const size = await stat(this.path).then(stats => stats.size, () => 0);
+    if (size + line.length > this.maxBytes) await this.rotate();
+    await appendFile(this.path, line);
+  }
+
+  private async rotate(): Promise<void> {
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = i === 1 ? this.path : `${this.path}.${i - 1}`;
+      await rename(from, `${this.path}.${i}`).catch(() => {});
+    }
+  }
+}
+
+export interface OtlpHttpExporterOptions {
+  maxQueueSize?: number;    // spans held while waiting to be sent; newer ones are dropped beyond this
+  maxBatchSize?: number;    // spans per request - a full batch is sent right away
+  flushIntervalMs?: number; // how long a partial batch waits
+  timeoutMs?: number;       // per request; a hung collector can't pile up open sockets
+}
+
+// Queues spans and POSTs them in batches - one request per span would cost a request per DB call.
+// Bounded on purpose: while the collector is down spans are dropped, memory stays flat
+export class OtlpHttpExporter implements SpanExporter {
+  private queue: SpanData[] = [];
+  private sending: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private dropped = 0;
+  private options: Required<OtlpHttpExporterOptions>;
+
+  constructor(private url: string, private serviceName: string, options: OtlpHttpExporterOptions = {}) {
+    this.options = { maxQueueSize: 2048, maxBatchSize: 512, flushIntervalMs: 5000, timeoutMs: 10000, ...options };
+  }
+
+  export(spans: SpanData[]): void {
+    const room = Math.max(this.options.maxQueueSize - this.queue.length, 0);
+    this.dropped += Math.max(spans.length - room, 0);
+    this.queue.push(...spans.slice(0, room));
+
+    // Started by the first span, not the constructor - an idle exporter keeps no timer around
+    if (!this.timer) {
+      this.timer = setInterval(() => this.flush().catch(() => {}), this.options.flushIntervalMs);
+      this.timer.unref();
+    }
+    if (this.queue.length >= this.options.maxBatchSize) this.flush().catch(() => {});
+  }
+
+  // Sends everything queued, one request at a time so batches arrive in order.
+  // Rejects if a batch fails; that batch is dropped, the rest wait for the next flush
+  flush(): Promise<void> {
+    if (!this.sending) {
+      this.sending = this.sendQueued().finally(() => { this.sending = null; });
+    }
+    return this.sending;
+  }
+
+  // Call on shutdown so the last partial batch isn't lost
+  async shutdown(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.flush();
+  }
+
+  droppedSpans(): number {
+    return this.dropped;
+  }
+
+  private async sendQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.maxBatchSize);
+      try {
+        const response = await fetch(this.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toOtlpJson(this.serviceName, batch)),
+          signal: AbortSignal.timeout(this.options.timeoutMs)
+        });
+        if (!response.ok) throw new Error(`Collector returned ${response.status}`);
+      } catch (error) {
+        // Not re-queued: retrying while the collector is down would only fill the queue
+        this.dropped += batch.length;
+        throw error;
+      }
+    }
+  }
+}
+
+// Stand-in for an OpenTelemetry collector on a laptop: POST /v1/traces, keeps spans in memory
+export class LocalCollector {
+  readonly spans: OtlpSpan[] = [];
+  private server?: Server;
+
+  start(port: number = 4318): Server {
+    this.server = createServer((req, res) => {
+      if (req.method !== 'POST' || req.url !== '/v1/traces') {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        try {
+          for (const resourceSpans of JSON.parse(body).resourceSpans || []) {
+            for (const scopeSpans of resourceSpans.scopeSpans || []) {
+              this.spans.push(...(scopeSpans.spans || []));
+            }
+          }
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end('{}');
+        } catch {
+          res.writeHead(400);
+          res.end();
+        }
+      });
+    }).listen(port);
+    return this.server;
+  }
+
+  stop(): void {
+    this.server?.close();
+  }
+
+  trace(traceId: string): OtlpSpan[] {
+    return this.spans.filter(span => span.traceId === traceId);
+  }
+}
+
+const activeSpanStorage = new AsyncLocalStorage<Span>();
+
+export function activeSpan(): Span | undefined {
+  return activeSpanStorage.getStore();
+}
+
+export class Tracer {
+  constructor(
+    private serviceName: string,
+    private exporters: SpanExporter[] = [],
+    private redactor: Redactor = defaultRedactor
+  ) {}
+
+  // Parent comes from the active span, an incoming traceparent, or the request context
+  startSpan(name: string, attributes: SpanAttributes = {}, parent?: { traceId: string; spanId: string }): Span {
+    const active = activeSpan();
+    const traceId = parent?.traceId || active?.traceId || requestTraceId() || randomBytes(16).toString('hex');
+    const parentSpanId = parent ? parent.spanId : active?.spanId;
+
+    return new Span(name, traceId, parentSpanId, span => this.export(span))
+      .setAttributes({ 'service.name': this.serviceName, 'service.version': RELEASE_VERSION, ...attributes });
+  }
+
+  // Runs fn with the span active, so nested withSpan calls become its children
+  async withSpan<T>(
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    attributes: SpanAttributes = {},
+    parent?: { traceId: string; spanId: string }
+  ): Promise<T> {
+    const span = this.startSpan(name, attributes, parent);
+    try {
+      const result = await activeSpanStorage.run(span, () => fn(span));
+      span.setStatus('ok');
+      return result;
     } catch (error) {
-      const totalTime = Date.now() - startTime;
-      console.error(`❌ Payment failed after ${totalTime}ms for user ${userId}:`, error.message);
+      span.recordException(error);
       throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private export(finished: SpanData): void {
+    // Attributes, event attributes and error messages all get the same redaction as logs
+    const span: SpanData = {
+      ...finished,
+      attributes: this.redactor.redact(finished.attributes),
+      events: finished.events.map(event => ({ ...event, attributes: this.redactor.redact(event.attributes) })),
+      status: { ...finished.status, message: this.redactor.redact(finished.status.message) }
+    };
+
+    for (const exporter of this.exporters) {
+      try {
+        Promise.resolve(exporter.export([span])).catch(() => {});
+      } catch {
+        // Losing a span is fine; failing the payment because of one is not
+      }
     }
   }
+}
+
+function requestTraceId(): string | undefined {
+  const traceId = currentRequestContext()?.traceId;
+  return traceId && /^[0-9a-f]{32}$/.test(traceId) ? traceId : undefined;
+}
+
+// Drop-in fetch that tells the downstream service which trace it belongs to
+export async function tracedFetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+  const span = activeSpan();
+  if (!span) return fetch(input, init);
+
+  const headers = new Headers(init.headers);
+  headers.set('traceparent', span.traceparent());
+  return fetch(input, { ...init, headers });
+}
+
+// Exporting is opt-in: importing this file must not create directories or start writing files.
+// Without either variable spans still run, and their IDs still show up in every log line
+function defaultSpanExporters(serviceName: string): SpanExporter[] {
+  const exporters: SpanExporter[] = [];
+  if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+    exporters.push(new OtlpHttpExporter(`${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, '')}/v1/traces`, serviceName));
+  }
+  if (process.env.TRACES_FILE) {
+    exporters.push(new OtlpJsonFileExporter(process.env.TRACES_FILE, serviceName)); // e.g. ./traces/spans.jsonl
+  }
+  return exporters;
+}
+
+export const defaultTracer = new Tracer('wartime-principles', defaultSpanExporters('wartime-principles'));
+
+// Even better: Trace each step to see what's slow
+class BetterPaymentService {
+  // Dashboards read these: p95 latency, error rate, charges/sec, charges in flight
+  readonly chargeUser: (userId: string, amount: number) => Promise<void>;
+
+  constructor(
+    private logger: Logger = new Logger(),
+    metricsRegistry: MetricsRegistry = metrics,
+    private tracer: Tracer = defaultTracer
+  ) {
+    this.chargeUser = instrument(metricsRegistry, 'payment_charge', (userId: string, amount: number) =>
+      this.charge(userId, amount));
+  }
+
+  private async charge(userId: string, amount: number): Promise<void> {
+    // Each step is a child span - the trace shows which one was slow, no stepStart bookkeeping
+    return this.tracer.withSpan('payment.charge', async span => {
+      const log = this.logger.child({ userId, amount });
+      log.info('payment.started');
+
+      try {
+        const user = await this.tracer.withSpan('payment.get_user', () => this.getUser(userId));
+
+        const paymentResult = await this.tracer.withSpan('payment.process', async processSpan => {
+          const result = await this.processPayment(user, amount);
+          processSpan.setAttributes({ 'payment.id': result.id, 'payment.status': result.status });
+          return result;
+        }, { 'payment.amount': amount });
+        span.setAttribute('payment.id', paymentResult.id);
+        const paymentLog = log.child({ paymentId: paymentResult.id });
+        paymentLog.info('payment.processed', { status: paymentResult.status });
+
+        await this.tracer.withSpan('payment.update_db', () => this.updateDatabase(userId, paymentResult));
+
+        paymentLog.info('payment.completed');
+
+      } catch (error) {
+        log.error('payment.failed', { error });
+        throw error;
+      }
+    }, { 'user.id': userId });
+  }
 
   private async getUser(userId: string) {
     // Simulate slow database
@@ -95,6 +1652,15 @@ class BetterPaymentService {
   }
 }
 
+// Wire it at the edge: every log line inside the handler gets the same requestId,
+// and the caller's traceparent (if any) makes our spans part of their trace
+// app.post('/charge', (req, res) => {
+//   const parent = parseTraceparent(req.headers['traceparent']);
+//   return runWithRequestContext({ requestId: req.headers['x-request-id'] }, () =>
+//     defaultTracer.withSpan('POST /charge', () => payments.chargeUser(req.body.userId, req.body.amount), {}, parent ?? undefined));
+// });
+// → {"time":"...","level":"info","msg":"payment.processed","requestId":"abc","traceId":"...","userId":"u1","amount":10,"paymentId":"payment_123","status":"success","durationMs":201}
+
 // Simple example: API with basic observability
 // ❌ BAD: No visibility into API calls
 class BadCryptoAPI {
@@ -107,12 +1673,25 @@ class BadCryptoAPI {
 
 // ✅ GOOD: Log what's happening
 class GoodCryptoAPI {
-  async getBitcoinPrice(): Promise<number> {
-    console.log('📈 Fetching Bitcoin price from CoinGecko...');
+  readonly getBitcoinPrice: () => Promise<number>;
+
+  constructor(
+    private logger: Logger = new Logger(),
+    metricsRegistry: MetricsRegistry = metrics,
+    private tracer: Tracer = defaultTracer
+  ) {
+    this.getBitcoinPrice = instrument(metricsRegistry, 'price_fetch', () =>
+      this.tracer.withSpan('price.fetch', () => this.fetchBitcoinPrice(), { 'price.provider': 'coingecko', 'price.symbol': 'bitcoin' }));
+  }
+
+  private async fetchBitcoinPrice(): Promise<number> {
+    const log = this.logger.child({ provider: 'coingecko', symbol: 'bitcoin' });
+    log.info('price.fetch_started');
     const startTime = Date.now();
 
     try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd');
+      // traceparent header goes along, so the provider's side can join our trace
+      const response = await tracedFetch('https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd');
 
       if (!response.ok) {
         throw new Error(`API returned ${response.status}: ${response.statusText}`);
@@ -120,18 +1699,20 @@ class GoodCryptoAPI {
 
       const data = await response.json();
       const price = data.bitcoin.usd;
-      const duration = Date.now() - startTime;
 
-      console.log(`✅ Bitcoin price fetched in ${duration}ms: $${price}`);
+      log.info('price.fetched', { price, durationMs: Date.now() - startTime });
       return price;
 
     } catch (error) {
-      const duration = Date.now() - startTime;
-      console.error(`❌ Failed to fetch Bitcoin price after ${duration}ms:`, error.message);
+      log.error('price.fetch_failed', { durationMs: Date.now() - startTime, error });
       throw error;
     }
   }
 }
 
-// Key takeaway: Add console.log to see what your code is doing!
+// Key takeaway: Add logs to see what your code is doing!
+// Start with console.log, graduate to structured JSON logs with request IDs,
+// then golden-signal metrics so you see trends, and traces so you see where the time went.
+// SLOs turn those metrics into a release decision, burn-rate alerts wake you up before users do,
+// and canary analysis rolls a bad release back before most users ever see it.
 // When things break, you'll know exactly where and why.
@@ -0,0 +1,369 @@
+// Offline billing tests - FakeStripeWebhooks signs deliveries locally and Stripe calls are recorded, no Stripe account needed
+// Run: node --test (after compiling) or npx tsx --test 05-thin-vertical-slices.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DunningManager,
+  DunningNotice,
+  DunningPolicy,
+  FakeStripeWebhooks,
+  FileStripeEventStore,
+  InvalidTransitionError,
+  PaymentSlice7,
+  StripeWebhookHandler,
+  SubscriptionRecord,
+  SubscriptionStateMachine
+} from './05-thin-vertical-slices';
+import { ProrationQuote } from './08-first-principles';
+
+const SECRET = 'whsec_test';
+const now = new Date('2026-01-01T00:00:00Z');
+const clock = () => now;
+
+function setup() {
+  const dir = mkdtempSync(join(tmpdir(), 'stripe-events-'));
+  const store = new FileStripeEventStore(join(dir, 'events.json'), { maxAgeDays: 30, maxEvents: 100 }, clock);
+  const lifecycle = new SubscriptionStateMachine(clock);
+  const subscription = lifecycle.create('user_1', 'pro', 'active', { stripeSubscriptionId: 'sub_123' });
+  const handler = new StripeWebhookHandler(SECRET, store, clock)
+    .on('invoice.payment_failed', async () => {
+      if (subscription.status !== 'past_due') lifecycle.markPastDue(subscription);
+    });
+  return { dir, store, lifecycle, subscription, handler, stripe: new FakeStripeWebhooks(SECRET, clock) };
+}
+
+test('refuses to start without a webhook secret', () => {
+  assert.throws(() => new StripeWebhookHandler('', new FileStripeEventStore(join(tmpdir(), 'unused.json'))), /secret is missing/);
+});
+
+test('processes a signed delivery and rejects a forged one', async () => {
+  const { dir, handler, subscription, stripe } = setup();
+  try {
+    const { rawBody, signature } = stripe.event('invoice.payment_failed', { subscription: 'sub_123', attempt_count: 1 });
+
+    assert.deepEqual(await handler.handle(rawBody, new FakeStripeWebhooks('whsec_attacker', clock).sign(rawBody)), { status: 400 });
+    assert.equal(subscription.status, 'active');
+
+    assert.deepEqual(await handler.handle(rawBody, signature), { status: 200 });
+    assert.equal(subscription.status, 'past_due');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('concurrent duplicate deliveries run the handler once', async () => {
+  const { dir, store, stripe } = setup();
+  try {
+    let calls = 0;
+    const handler = new StripeWebhookHandler(SECRET, store, clock)
+      .on('invoice.paid', async () => { calls++; });
+    const { rawBody, signature } = stripe.event('invoice.paid', { subscription: 'sub_123' });
+
+    const results = await Promise.all([handler.handle(rawBody, signature), handler.handle(rawBody, signature)]);
+
+    assert.equal(calls, 1);
+    assert.equal(results.filter(r => r.duplicate).length, 1);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('failed events are retried on redelivery', async () => {
+  const { dir, store, stripe } = setup();
+  try {
+    let attempts = 0;
+    const handler = new StripeWebhookHandler(SECRET, store, clock)
+      .on('invoice.paid', async () => {
+        if (++attempts === 1) throw new Error('database unavailable');
+      });
+    const { rawBody, signature, eventId } = stripe.event('invoice.paid', { subscription: 'sub_123' });
+
+    assert.deepEqual(await handler.handle(rawBody, signature), { status: 500 });
+    assert.deepEqual(await handler.handle(rawBody, signature), { status: 200 });
+    assert.equal((await store.get(eventId))?.status, 'processed');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('stored events expire and the file is owner-only', async () => {
+  const { dir, store } = setup();
+  try {
+    const old = new Date(now.getTime() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    await store.save({ id: 'evt_old', type: 'invoice.paid', rawBody: '{}', receivedAt: old, status: 'processed' });
+    await store.save({ id: 'evt_new', type: 'invoice.paid', rawBody: '{}', receivedAt: now.toISOString(), status: 'processed' });
+
+    assert.deepEqual((await store.list()).map(e => e.id), ['evt_new']);
+    assert.equal(statSync(join(dir, 'events.json')).mode & 0o777, 0o600);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('cancel at period end only applies to active subscriptions', () => {
+  const lifecycle = new SubscriptionStateMachine(clock);
+  const trial: SubscriptionRecord = lifecycle.create('user_2', 'basic', 'trialing');
+  const overdue = lifecycle.markPastDue(lifecycle.create('user_3', 'pro', 'active'));
+
+  assert.throws(() => lifecycle.checkCancel(trial, { atPeriodEnd: true }), InvalidTransitionError);
+  assert.throws(() => lifecycle.cancel(trial, { atPeriodEnd: true }), InvalidTransitionError);
+  assert.throws(() => lifecycle.cancel(overdue, { atPeriodEnd: true }), InvalidTransitionError);
+  assert.equal(trial.status, 'trialing');
+  assert.equal(overdue.status, 'past_due');
+
+  // Without an explicit choice, non-active subscriptions still cancel right away
+  assert.equal(lifecycle.checkCancel(trial), false);
+  assert.equal(lifecycle.cancel(trial).status, 'canceled');
+  assert.throws(() => lifecycle.checkCancel(trial), InvalidTransitionError);
+});
+
+test('a second scheduled cancel is refused before anything changes', () => {
+  const lifecycle = new SubscriptionStateMachine(clock);
+  const subscription = lifecycle.create('user_4', 'pro', 'active');
+
+  assert.equal(lifecycle.checkCancel(subscription), true);
+  lifecycle.cancel(subscription);
+  assert.throws(() => lifecycle.checkCancel(subscription), /already scheduled/);
+  assert.equal(subscription.history.length, 2);
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dunning walks its schedule on a clock the test moves forward
+function dunningSetup(policy: DunningPolicy, cardWorks: (plan: string) => boolean = () => false) {
+  let time = now.getTime();
+  const dunningClock = () => new Date(time);
+  const lifecycle = new SubscriptionStateMachine(dunningClock);
+  const subscription = lifecycle.create('user_5', 'pro', 'active');
+  const notices: DunningNotice[] = [];
+  const charges: string[] = [];
+  const dunning = new DunningManager(
+    lifecycle,
+    async sub => {
+      charges.push(sub.plan);
+      if (!cardWorks(sub.plan)) throw new Error('card declined');
+    },
+    async (_sub, notice) => { notices.push(notice); },
+    policy,
+    dunningClock
+  );
+  return { lifecycle, subscription, dunning, notices, charges, advanceDays: (days: number) => { time += days * DAY_MS; } };
+}
+
+const cancelPolicy: DunningPolicy = { retryScheduleDays: [1, 3, 5], gracePeriodDays: 4, finalAction: { type: 'cancel' } };
+
+test('dunning retries on schedule, warns before the last retry, then cancels', async () => {
+  const { lifecycle, subscription, dunning, notices, charges, advanceDays } = dunningSetup(cancelPolicy);
+  const quiet = console.warn;
+  console.warn = () => {};
+  try {
+    await dunning.start(subscription);
+    assert.equal(subscription.status, 'past_due');
+
+    // Not due yet - nothing is charged
+    await dunning.processDue([subscription]);
+    assert.equal(charges.length, 0);
+
+    advanceDays(1);
+    await dunning.processDue([subscription]);
+    assert.equal(dunning.getCase(subscription.id)?.nextRetryAt.getTime(), now.getTime() + 3 * DAY_MS);
+
+    advanceDays(2);
+    await dunning.processDue([subscription]);
+    advanceDays(2);
+    await dunning.processDue([subscription]);
+
+    assert.equal(charges.length, 3);
+    assert.deepEqual(notices.map(n => n.type), ['payment_failed', 'retry_failed', 'final_warning', 'canceled']);
+    assert.equal(subscription.status, 'canceled');
+    assert.equal(dunning.getCase(subscription.id)?.status, 'canceled');
+    assert.equal(lifecycle.hasAccess(subscription), false);
+  } finally {
+    console.warn = quiet;
+  }
+});
+
+test('access is kept during the grace period and lost after it', async () => {
+  const { lifecycle, subscription, dunning, advanceDays } = dunningSetup({ ...cancelPolicy, retryScheduleDays: [10] });
+  await dunning.start(subscription);
+
+  advanceDays(3);
+  assert.equal(lifecycle.hasAccess(subscription), true);
+  advanceDays(1);
+  assert.equal(lifecycle.hasAccess(subscription), false);
+  assert.equal(subscription.status, 'past_due');
+});
+
+test('an updated card recovers the subscription right away', async () => {
+  let cardFixed = false;
+  const { lifecycle, subscription, dunning, notices, charges, advanceDays } = dunningSetup(cancelPolicy, () => cardFixed);
+  await dunning.start(subscription);
+  advanceDays(5);
+
+  cardFixed = true;
+  assert.equal(await dunning.paymentMethodUpdated(subscription), true);
+  assert.equal(subscription.status, 'active');
+  assert.equal(subscription.graceEndsAt, undefined);
+  assert.equal(lifecycle.hasAccess(subscription), true);
+  assert.equal(dunning.getCase(subscription.id)?.status, 'recovered');
+  assert.deepEqual(notices.map(n => n.type), ['payment_failed', 'recovered']);
+
+  // The case is closed - later runs and updates never charge again
+  await dunning.processDue([subscription]);
+  assert.equal(await dunning.paymentMethodUpdated(subscription), false);
+  assert.equal(charges.length, 1);
+});
+
+test('a card update after the subscription was paid elsewhere closes the case without charging', async () => {
+  const { lifecycle, subscription, dunning, charges } = dunningSetup(cancelPolicy, () => true);
+  await dunning.start(subscription);
+  lifecycle.activate(subscription); // e.g. invoice.paid arrived first
+
+  assert.equal(await dunning.paymentMethodUpdated(subscription), false);
+  assert.equal(charges.length, 0);
+  assert.equal(dunning.getCase(subscription.id)?.status, 'recovered');
+});
+
+test('the downgrade final action moves to the cheaper plan when it can be charged', async () => {
+  const policy: DunningPolicy = { ...cancelPolicy, finalAction: { type: 'downgrade', plan: 'basic' } };
+  const { subscription, dunning, notices, charges, advanceDays } = dunningSetup(policy, plan => plan === 'basic');
+  const quiet = console.warn;
+  console.warn = () => {};
+  try {
+    await dunning.start(subscription);
+    for (const days of [1, 2, 2]) {
+      advanceDays(days);
+      await dunning.processDue([subscription]);
+    }
+
+    assert.deepEqual(charges, ['pro', 'pro', 'pro', 'basic']);
+    assert.equal(subscription.plan, 'basic');
+    assert.equal(subscription.status, 'active');
+    assert.equal(dunning.getCase(subscription.id)?.status, 'downgraded');
+    assert.deepEqual(notices.at(-1), { type: 'downgraded', plan: 'basic' });
+  } finally {
+    console.warn = quiet;
+  }
+});
+
+test('the downgrade final action cancels when the cheaper plan fails too', async () => {
+  const policy: DunningPolicy = { ...cancelPolicy, finalAction: { type: 'downgrade', plan: 'basic' } };
+  const { subscription, dunning, notices, advanceDays } = dunningSetup(policy);
+  const quiet = console.warn;
+  console.warn = () => {};
+  try {
+    await dunning.start(subscription);
+    for (const days of [1, 2, 2]) {
+      advanceDays(days);
+      await dunning.processDue([subscription]);
+    }
+
+    assert.equal(subscription.plan, 'pro');
+    assert.equal(subscription.status, 'canceled');
+    assert.equal(notices.at(-1)?.type, 'canceled');
+  } finally {
+    console.warn = quiet;
+  }
+});
+
+// Stripe calls are recorded instead of made; the plan update can be told to fail
+class RecordingPayments extends PaymentSlice7 {
+  readonly stripeCalls: string[] = [];
+  failPlanUpdate = false;
+
+  subscriptionOf(userId: string): SubscriptionRecord {
+    return this.findCurrent(userId)!;
+  }
+
+  protected async chargeProration(_subscriptionId: string, quote: ProrationQuote): Promise<void> {
+    this.stripeCalls.push(`charge ${quote.chargeCents}`);
+  }
+
+  protected async refundProration(_subscriptionId: string, quote: ProrationQuote): Promise<void> {
+    this.stripeCalls.push(`refund ${quote.chargeCents}`);
+  }
+
+  protected async updateStripeSubscription(_subscriptionId: string, newPriceId: string): Promise<void> {
+    if (this.failPlanUpdate) throw new Error('Stripe unavailable');
+    this.stripeCalls.push(`update ${newPriceId}`);
+  }
+}
+
+// basic is $10 and pro $50 per 30-day period
+async function billingSetup() {
+  let time = now.getTime();
+  const payments = new RecordingPayments(SECRET, new FileStripeEventStore(join(tmpdir(), 'unused.json')), () => new Date(time));
+  await payments.subscribe('user_6', 'basic', 'pm_card');
+  return { payments, subscription: payments.subscriptionOf('user_6'), advanceDays: (days: number) => { time += days * DAY_MS; } };
+}
+
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+  }
+}
+
+test('an upgrade charges the rest of the period on the new plan minus unused time', () => quietly(async () => {
+  const { payments, subscription, advanceDays } = await billingSetup();
+  advanceDays(10);
+
+  const quote = await payments.changePlan('user_6', 'pro');
+
+  // -$6.67 unused basic, +$33.33 remaining pro
+  assert.deepEqual(quote?.lineItems.map(item => item.amountCents), [-667, 3333]);
+  assert.equal(quote?.chargeCents, 2666);
+  assert.deepEqual(payments.stripeCalls, ['charge 2666', 'update price_pro']);
+  assert.equal(subscription.plan, 'pro');
+  assert.equal(subscription.creditBalanceCents, 0);
+}));
+
+test('a downgrade becomes account credit, not a refund', () => quietly(async () => {
+  const { payments, subscription, advanceDays } = await billingSetup();
+  advanceDays(10);
+  await payments.changePlan('user_6', 'pro');
+  advanceDays(5);
+
+  const quote = await payments.changePlan('user_6', 'basic');
+
+  // -$25.00 unused pro, +$5.00 remaining basic → $20.00 credit
+  assert.equal(quote?.chargeCents, 0);
+  assert.equal(subscription.creditBalanceCents, 2000);
+  assert.deepEqual(payments.stripeCalls, ['charge 2666', 'update price_pro', 'update price_basic']);
+  assert.equal(subscription.plan, 'basic');
+}));
+
+test('a failed Stripe update refunds the charge and keeps the old plan', () => quietly(async () => {
+  const { payments, subscription, advanceDays } = await billingSetup();
+  advanceDays(10);
+  payments.failPlanUpdate = true;
+
+  await assert.rejects(payments.changePlan('user_6', 'pro'), /Stripe unavailable/);
+
+  assert.deepEqual(payments.stripeCalls, ['charge 2666', 'refund 2666']);
+  assert.equal(subscription.plan, 'basic');
+  assert.equal(subscription.creditBalanceCents, 0);
+}));
+
+test('account credit pays for renewals before the card does', () => quietly(async () => {
+  const { payments, subscription, advanceDays } = await billingSetup();
+  advanceDays(10);
+  await payments.changePlan('user_6', 'pro');
+  advanceDays(5);
+  await payments.changePlan('user_6', 'basic');
+  const firstPeriodEnd = subscription.currentPeriodEnd;
+
+  advanceDays(15);
+  await payments.processRenewals();
+
+  // $20.00 credit covers the $10.00 basic period, $10.00 is left for the next one
+  assert.equal(subscription.creditBalanceCents, 1000);
+  assert.equal(subscription.status, 'active');
+  assert.ok(subscription.currentPeriodEnd > firstPeriodEnd);
+}));
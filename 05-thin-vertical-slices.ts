@@ -1,5 +1,10 @@
 // Principle 5: Ship Thin Vertical Slices
 
+import { createHmac, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { ProrationEngine, ProrationQuote } from './08-first-principles';
+
 // ❌ BAD: Building entire payment system before users can pay anything
 class BadPaymentSystem {
   // Trying to build ALL payment features before anyone can subscribe!
@@ -70,14 +75,200 @@ class PaymentSlice1 {
 // Ship it! Users can "subscribe" and access features immediately!
 // Revenue starts flowing (even if payment is manual for now)
 
+// Shared by every slice from here on: one place that knows which status changes are legal.
+// An `active` boolean can't tell "trial", "card declined" and "canceled, but paid until the 30th" apart.
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'paused' | 'canceled' | 'expired';
+
+export const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  trialing: ['active', 'canceled', 'expired'],
+  active: ['past_due', 'paused', 'canceled'],
+  past_due: ['active', 'canceled', 'expired'],
+  paused: ['active', 'canceled'],
+  canceled: [],  // terminal
+  expired: []    // terminal
+};
+
+export interface SubscriptionTransition {
+  from: SubscriptionStatus | null;
+  to: SubscriptionStatus;
+  at: Date;
+  reason: string;
+}
+
+export interface SubscriptionRecord {
+  id: string;
+  userId: string;
+  plan: 'basic' | 'pro';
+  status: SubscriptionStatus;
+  stripeSubscriptionId?: string;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  trialEndsAt?: Date;
+  graceEndsAt?: Date;   // set while past_due: access is kept until then
+  creditBalanceCents: number; // from prorated downgrades, spent on later charges
+  history: SubscriptionTransition[];
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly subscriptionId: string,
+    public readonly from: SubscriptionStatus,
+    public readonly to: SubscriptionStatus | string
+  ) {
+    super(`Subscription ${subscriptionId} cannot go from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+const BILLING_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class SubscriptionStateMachine {
+  constructor(private clock: () => Date = () => new Date()) {}
+
+  create(userId: string, plan: 'basic' | 'pro', status: 'trialing' | 'active', options: { trialDays?: number; stripeSubscriptionId?: string } = {}): SubscriptionRecord {
+    const now = this.clock();
+    const periodMs = status === 'trialing' ? (options.trialDays ?? 7) * 24 * 60 * 60 * 1000 : BILLING_PERIOD_MS;
+    const periodEnd = new Date(now.getTime() + periodMs);
+
+    return {
+      id: 'subscription_' + now.getTime() + '_' + userId,
+      userId,
+      plan,
+      status,
+      stripeSubscriptionId: options.stripeSubscriptionId,
+      currentPeriodStart: now,
+      currentPeriodEnd: periodEnd,
+      cancelAtPeriodEnd: false,
+      creditBalanceCents: 0,
+      trialEndsAt: status === 'trialing' ? periodEnd : undefined,
+      history: [{ from: null, to: status, at: now, reason: status === 'trialing' ? 'trial started' : 'subscribed' }]
+    };
+  }
+
+  // Every status change goes through here - guarded and recorded
+  transition(subscription: SubscriptionRecord, to: SubscriptionStatus, reason: string): SubscriptionRecord {
+    if (!SUBSCRIPTION_TRANSITIONS[subscription.status].includes(to)) {
+      throw new InvalidTransitionError(subscription.id, subscription.status, to);
+    }
+
+    subscription.history.push({ from: subscription.status, to, at: this.clock(), reason });
+    subscription.status = to;
+    return subscription;
+  }
+
+  activate(subscription: SubscriptionRecord, stripeSubscriptionId?: string): SubscriptionRecord {
+    const fromTrial = subscription.status === 'trialing';
+    this.transition(subscription, 'active', fromTrial ? 'trial converted' : 'payment recovered');
+    if (stripeSubscriptionId) subscription.stripeSubscriptionId = stripeSubscriptionId;
+    subscription.graceEndsAt = undefined;
+    // Trial converted or overdue renewal finally paid - either way a fresh paid period starts now
+    this.startNewPeriod(subscription);
+    return subscription;
+  }
+
+  markPastDue(subscription: SubscriptionRecord, reason: string = 'renewal payment failed'): SubscriptionRecord {
+    return this.transition(subscription, 'past_due', reason);
+  }
+
+  pause(subscription: SubscriptionRecord): SubscriptionRecord {
+    return this.transition(subscription, 'paused', 'paused by user');
+  }
+
+  resume(subscription: SubscriptionRecord): SubscriptionRecord {
+    if (subscription.status !== 'paused') {
+      throw new InvalidTransitionError(subscription.id, subscription.status, 'resume');
+    }
+    this.transition(subscription, 'active', 'resumed by user');
+    // Paused time isn't billed - the new period starts when they come back
+    this.startNewPeriod(subscription);
+    return subscription;
+  }
+
+  // Default is at period end for paid periods: they paid for the month, they keep the month.
+  // Trials end on their own and past_due belongs to dunning, so only active can schedule it -
+  // asking for at-period-end anywhere else is an error, not a silent immediate cancel
+  cancel(subscription: SubscriptionRecord, options: { atPeriodEnd?: boolean; reason?: string } = {}): SubscriptionRecord {
+    const atPeriodEnd = this.checkCancel(subscription, options);
+    const reason = options.reason ?? 'canceled by user';
+
+    if (atPeriodEnd) {
+      subscription.cancelAtPeriodEnd = true;
+      subscription.history.push({ from: 'active', to: 'active', at: this.clock(), reason: `${reason} - at period end` });
+      return subscription;
+    }
+
+    return this.transition(subscription, 'canceled', reason);
+  }
+
+  // Throws like cancel() would, without changing anything - call it before telling Stripe.
+  // Returns whether the cancel would be at period end
+  checkCancel(subscription: SubscriptionRecord, options: { atPeriodEnd?: boolean } = {}): boolean {
+    const atPeriodEnd = options.atPeriodEnd ?? subscription.status === 'active';
+
+    if (atPeriodEnd) {
+      if (subscription.status !== 'active') {
+        throw new InvalidTransitionError(subscription.id, subscription.status, 'cancel at period end');
+      }
+      if (subscription.cancelAtPeriodEnd) {
+        throw new InvalidTransitionError(subscription.id, subscription.status, 'cancel (already scheduled)');
+      }
+    } else if (!SUBSCRIPTION_TRANSITIONS[subscription.status].includes('canceled')) {
+      throw new InvalidTransitionError(subscription.id, subscription.status, 'canceled');
+    }
+    return atPeriodEnd;
+  }
+
+  // Undo a scheduled cancellation before the period runs out
+  keep(subscription: SubscriptionRecord): SubscriptionRecord {
+    if (subscription.status !== 'active' || !subscription.cancelAtPeriodEnd) {
+      throw new InvalidTransitionError(subscription.id, subscription.status, 'keep');
+    }
+    subscription.cancelAtPeriodEnd = false;
+    subscription.history.push({ from: 'active', to: 'active', at: this.clock(), reason: 'scheduled cancellation withdrawn' });
+    return subscription;
+  }
+
+  // Called by a periodic job: scheduled cancellations take effect, unconverted trials expire,
+  // active subscriptions roll into the next period (the renewal charge is someone else's job)
+  endPeriodIfDue(subscription: SubscriptionRecord): SubscriptionRecord {
+    if (this.clock() < subscription.currentPeriodEnd) return subscription;
+
+    if (subscription.status === 'trialing') {
+      return this.transition(subscription, 'expired', 'trial ended without payment');
+    }
+    if (subscription.status === 'active' && subscription.cancelAtPeriodEnd) {
+      return this.transition(subscription, 'canceled', 'canceled at period end');
+    }
+    if (subscription.status === 'active') {
+      this.startNewPeriod(subscription);
+    }
+    return subscription;
+  }
+
+  // past_due keeps access (until the grace period, if any, runs out): a failing card isn't the user's intent to leave
+  hasAccess(subscription: SubscriptionRecord): boolean {
+    if (subscription.status === 'past_due') {
+      return !subscription.graceEndsAt || this.clock() < subscription.graceEndsAt;
+    }
+    return subscription.status === 'trialing' || subscription.status === 'active';
+  }
+
+  private startNewPeriod(subscription: SubscriptionRecord): void {
+    const now = this.clock();
+    subscription.currentPeriodStart = now;
+    subscription.currentPeriodEnd = new Date(now.getTime() + BILLING_PERIOD_MS);
+  }
+}
+
 // 🚀 SLICE 2 (Week 2): Add real Stripe payment - ship it!
 class PaymentSlice2 {
-  private subscriptions: Array<{
-    userId: string,
-    plan: string,
-    active: boolean,
-    stripeSubscriptionId?: string
-  }> = [];
+  protected subscriptions: SubscriptionRecord[] = [];
+  protected lifecycle: SubscriptionStateMachine;
+
+  constructor(protected clock: () => Date = () => new Date()) {
+    this.lifecycle = new SubscriptionStateMachine(clock);
+  }
 
   async subscribe(userId: string, plan: 'basic' | 'pro', paymentMethodId: string): Promise<string> {
     console.log(`💳 Processing payment for ${userId}...`);
@@ -91,12 +282,7 @@ class PaymentSlice2 {
         paymentMethodId
       );
 
-      const subscription = {
-        userId,
-        plan,
-        active: true,
-        stripeSubscriptionId: stripeSubscription.id
-      };
+      const subscription = this.lifecycle.create(userId, plan, 'active', { stripeSubscriptionId: stripeSubscription.id });
 
       this.subscriptions.push(subscription);
       console.log(`✅ User ${userId} successfully subscribed to ${plan} with Stripe`);
@@ -110,15 +296,27 @@ class PaymentSlice2 {
   }
 
   isSubscribed(userId: string): boolean {
-    return this.subscriptions.some(sub => sub.userId === userId && sub.active);
+    const subscription = this.findCurrent(userId);
+    return !!subscription && this.lifecycle.hasAccess(subscription);
   }
 
-  private async createStripeCustomer(userId: string): Promise<{id: string}> {
+  getUserPlan(userId: string): string | null {
+    const subscription = this.findCurrent(userId);
+    return subscription && this.lifecycle.hasAccess(subscription) ? subscription.plan : null;
+  }
+
+  // Latest subscription that hasn't ended - canceled/expired ones stay around as history
+  protected findCurrent(userId: string): SubscriptionRecord | undefined {
+    return [...this.subscriptions].reverse().find(sub =>
+      sub.userId === userId && sub.status !== 'canceled' && sub.status !== 'expired');
+  }
+
+  protected async createStripeCustomer(userId: string): Promise<{id: string}> {
     // Simplified Stripe customer creation
     return { id: 'cus_' + userId };
   }
 
-  private async createStripeSubscription(customerId: string, priceId: string, paymentMethodId: string): Promise<{id: string}> {
+  protected async createStripeSubscription(customerId: string, priceId: string, paymentMethodId: string): Promise<{id: string}> {
     // Simplified Stripe subscription creation
     return { id: 'sub_' + Date.now() };
   }
@@ -129,29 +327,60 @@ class PaymentSlice2 {
 
 // 🚀 SLICE 3 (Week 3): Add plan upgrades/downgrades - ship it!
 class PaymentSlice3 extends PaymentSlice2 {
-  async changePlan(userId: string, newPlan: 'basic' | 'pro'): Promise<void> {
-    const subscription = this.subscriptions.find(sub => sub.userId === userId && sub.active);
+  protected planPrices = { basic: 10, pro: 50 };
+  protected proration = new ProrationEngine(() => this.planPrices, this.clock);
+
+  async changePlan(userId: string, newPlan: 'basic' | 'pro'): Promise<ProrationQuote | null> {
+    const subscription = this.findCurrent(userId);
 
     if (!subscription) {
       throw new Error('No active subscription found');
     }
+    if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+      throw new InvalidTransitionError(subscription.id, subscription.status, `plan ${newPlan}`);
+    }
 
     console.log(`🔄 Changing ${userId} from ${subscription.plan} to ${newPlan}...`);
 
+    // Nothing has been paid during a trial, so there's nothing to prorate
+    const quote = subscription.status === 'active'
+      ? this.proration.quote({
+          plan: subscription.plan,
+          periodStart: subscription.currentPeriodStart,
+          periodEnd: subscription.currentPeriodEnd,
+          creditBalanceCents: subscription.creditBalanceCents
+        }, newPlan)
+      : null;
+
     if (subscription.stripeSubscriptionId) {
-      // Update Stripe subscription
-      await this.updateStripeSubscription(
-        subscription.stripeSubscriptionId,
-        newPlan === 'basic' ? 'price_basic' : 'price_pro'
-      );
+      // Charge first: a declined card must not leave them on the new plan for free
+      const charged = quote !== null && quote.chargeCents > 0;
+      if (charged) {
+        await this.chargeProration(subscription.stripeSubscriptionId, quote);
+      }
+
+      // Update Stripe subscription - we did the proration math, so Stripe shouldn't do it again
+      try {
+        await this.updateStripeSubscription(
+          subscription.stripeSubscriptionId,
+          newPlan === 'basic' ? 'price_basic' : 'price_pro'
+        );
+      } catch (error) {
+        // Still on the old plan - give the money back
+        if (charged) await this.refundProration(subscription.stripeSubscriptionId, quote);
+        throw error;
+      }
     }
 
     subscription.plan = newPlan;
+    if (quote) subscription.creditBalanceCents = quote.creditBalanceAfterCents;
     console.log(`✅ User ${userId} plan changed to ${newPlan}`);
+    quote?.lineItems.forEach(item => console.log(`   ${item.description}: $${(item.amountCents / 100).toFixed(2)}`));
+    return quote;
   }
 
-  async cancelSubscription(userId: string): Promise<void> {
-    const subscription = this.subscriptions.find(sub => sub.userId === userId && sub.active);
+  async cancelSubscription(userId: string, options: { atPeriodEnd?: boolean } = {}): Promise<void> {
+    const subscription = this.findCurrent(userId);
 
     if (!subscription) {
       throw new Error('No active subscription found');
@@ -159,26 +388,62 @@ class PaymentSlice3 extends PaymentSlice2 {
 
     console.log(`❌ Canceling subscription for ${userId}...`);
 
+    // Active periods run out by default, everything else cancels right away. An explicit
+    // atPeriodEnd the state machine can't honour is refused here - before Stripe hears about it
+    const atPeriodEnd = this.lifecycle.checkCancel(subscription, options);
+
     if (subscription.stripeSubscriptionId) {
-      await this.cancelStripeSubscription(subscription.stripeSubscriptionId);
+      await this.cancelStripeSubscription(subscription.stripeSubscriptionId, atPeriodEnd);
     }
 
-    subscription.active = false;
-    console.log(`✅ Subscription canceled for ${userId}`);
+    this.lifecycle.cancel(subscription, { atPeriodEnd });
+    console.log(atPeriodEnd
+      ? `✅ Subscription for ${userId} will end on ${subscription.currentPeriodEnd.toISOString()}`
+      : `✅ Subscription canceled for ${userId}`);
   }
 
-  private async updateStripeSubscription(subscriptionId: string, newPriceId: string): Promise<void> {
-    // Simplified Stripe subscription update
+  async pauseSubscription(userId: string): Promise<void> {
+    const subscription = this.findCurrent(userId);
+    if (!subscription) {
+      throw new Error('No active subscription found');
+    }
+
+    this.lifecycle.pause(subscription);
+    console.log(`⏸️ Subscription paused for ${userId}`);
+  }
+
+  async resumeSubscription(userId: string): Promise<void> {
+    const subscription = this.findCurrent(userId);
+    if (!subscription) {
+      throw new Error('No paused subscription found');
+    }
+
+    this.lifecycle.resume(subscription);
+    console.log(`▶️ Subscription resumed for ${userId}, next renewal ${subscription.currentPeriodEnd.toISOString()}`);
+  }
+
+  protected async updateStripeSubscription(subscriptionId: string, newPriceId: string): Promise<void> {
+    // Simplified Stripe subscription update (proration_behavior: 'none')
     console.log(`Updating Stripe subscription ${subscriptionId} to ${newPriceId}`);
   }
 
-  private async cancelStripeSubscription(subscriptionId: string): Promise<void> {
-    // Simplified Stripe subscription cancellation
-    console.log(`Canceling Stripe subscription ${subscriptionId}`);
+  protected async chargeProration(subscriptionId: string, quote: ProrationQuote): Promise<void> {
+    // Simplified one-off invoice with the quote's line items
+    console.log(`Invoicing ${subscriptionId} $${(quote.chargeCents / 100).toFixed(2)} for plan change`);
+  }
+
+  protected async refundProration(subscriptionId: string, quote: ProrationQuote): Promise<void> {
+    // Simplified refund of the plan change invoice
+    console.log(`Refunding ${subscriptionId} $${(quote.chargeCents / 100).toFixed(2)} for failed plan change`);
+  }
+
+  protected async cancelStripeSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<void> {
+    // Simplified Stripe subscription cancellation (cancel_at_period_end vs immediate)
+    console.log(`Canceling Stripe subscription ${subscriptionId}${atPeriodEnd ? ' at period end' : ' now'}`);
   }
 }
 
-// Ship again! Users can now upgrade/downgrade and cancel!
+// Ship again! Users can now upgrade/downgrade, pause and cancel!
 // Get feedback: "Love the flexibility!" or "Need annual billing"
 
 // 🚀 SLICE 4 (Week 4): Add usage-based billing for crypto research - ship it!
@@ -246,30 +511,20 @@ class PaymentSlice5 extends PaymentSlice4 {
     // Start 7-day free trial
     this.trials.push({
       userId,
-      startDate: new Date().toISOString(),
+      startDate: this.clock().toISOString(),
       plan
     });
 
-    // Create "subscription" but don't charge yet
-    const subscription = {
-      userId,
-      plan,
-      active: true,
-      stripeSubscriptionId: undefined // No Stripe subscription during trial
-    };
+    // Create "subscription" but don't charge yet - no Stripe subscription during trial
+    const subscription = this.lifecycle.create(userId, plan, 'trialing', { trialDays: 7 });
 
     this.subscriptions.push(subscription);
     console.log(`🎁 Started 7-day free trial for user ${userId} on ${plan} plan`);
   }
 
   isInFreeTrial(userId: string): boolean {
-    const trial = this.trials.find(t => t.userId === userId);
-    if (!trial) return false;
-
-    const trialStart = new Date(trial.startDate);
-    const trialEnd = new Date(trialStart.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    return new Date() < trialEnd;
+    const subscription = this.findCurrent(userId);
+    return subscription?.status === 'trialing' && this.clock() < subscription.trialEndsAt!;
   }
 
   async convertTrialToSubscription(userId: string, paymentMethodId: string): Promise<string> {
@@ -278,23 +533,615 @@ class PaymentSlice5 extends PaymentSlice4 {
       throw new Error('No active trial found');
     }
 
+    // Convert the trial record itself (trialing → active) instead of creating a second subscription
+    const subscription = this.findCurrent(userId);
+    if (!subscription) {
+      throw new Error('No active trial found');
+    }
+    if (subscription.status !== 'trialing') {
+      throw new InvalidTransitionError(subscription.id, subscription.status, 'active');
+    }
     if (!this.isInFreeTrial(userId)) {
       throw new Error('Trial period expired');
     }
 
     console.log(`💳 Converting trial to paid subscription for user ${userId}...`);
 
-    // Convert to real Stripe subscription
-    return await this.subscribe(userId, trial.plan as 'basic' | 'pro', paymentMethodId);
+    const stripeCustomer = await this.createStripeCustomer(userId);
+    const stripeSubscription = await this.createStripeSubscription(
+      stripeCustomer.id,
+      subscription.plan === 'basic' ? 'price_basic' : 'price_pro',
+      paymentMethodId
+    );
+
+    // Canceled while we were talking to Stripe - don't leave a paid subscription behind
+    if (subscription.status !== 'trialing') {
+      await this.cancelStripeSubscription(stripeSubscription.id, false);
+      throw new InvalidTransitionError(subscription.id, subscription.status, 'active');
+    }
+
+    this.lifecycle.activate(subscription, stripeSubscription.id);
+    return stripeSubscription.id;
   }
 }
 
 // Ship again! Users can try before they buy!
 // Get feedback: "7 days perfect!" or "Need 14 days" or "Trial convinced me!"
 
+// 🚀 SLICE 6 (Week 6): Listen to Stripe webhooks - ship it!
+// Renewals fail, disputes happen, customers cancel in the Stripe portal - all without calling us.
+// Webhooks are how we find out; until then our local records are guessing.
+export type StripeEvent =
+  | { id: string; type: 'invoice.paid'; created: number; data: { object: { subscription: string } } }
+  | { id: string; type: 'invoice.payment_failed'; created: number; data: { object: { subscription: string; attempt_count: number } } }
+  | { id: string; type: 'customer.subscription.updated'; created: number; data: { object: { id: string; cancel_at_period_end: boolean; current_period_end: number } } }
+  | { id: string; type: 'customer.subscription.deleted'; created: number; data: { object: { id: string } } };
+
+export type StripeEventType = StripeEvent['type'];
+export type StripeEventHandler<T extends StripeEventType> = (event: Extract<StripeEvent, { type: T }>) => Promise<void>;
+
+export class StripeSignatureError extends Error {
+  constructor(public readonly reason: 'missing-header' | 'malformed-header' | 'timestamp-outside-tolerance' | 'signature-mismatch') {
+    super(`Invalid Stripe-Signature: ${reason}`);
+    this.name = 'StripeSignatureError';
+  }
+}
+
+// Same scheme as stripe.webhooks.constructEvent: HMAC-SHA256 over "<timestamp>.<raw body>"
+export function verifyStripeSignature(
+  rawBody: string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds: number = 300,
+  now: () => Date = () => new Date()
+): void {
+  if (!header) throw new StripeSignatureError('missing-header');
+
+  const parts = header.split(',').map(part => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) throw new StripeSignatureError('malformed-header');
+
+  // Old timestamps = someone replaying a captured request
+  if (Math.abs(now().getTime() / 1000 - timestamp) > toleranceSeconds) {
+    throw new StripeSignatureError('timestamp-outside-tolerance');
+  }
+
+  const expected = Buffer.from(signStripePayload(rawBody, timestamp, secret), 'hex');
+  const matches = signatures.some(signature => {
+    const candidate = Buffer.from(signature, 'hex');
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+  if (!matches) throw new StripeSignatureError('signature-mismatch');
+}
+
+function signStripePayload(rawBody: string, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+// Raw body kept exactly as received - replays go through the same handlers with the same input
+export interface StoredStripeEvent {
+  id: string;
+  type: string;
+  rawBody: string;
+  receivedAt: string;
+  status: 'received' | 'processed' | 'ignored' | 'failed';
+  error?: string;
+}
+
+export interface StripeEventStore {
+  get(id: string): Promise<StoredStripeEvent | undefined>;
+  // Check-and-insert in one step: true = this delivery owns the event, false = someone already has it.
+  // A separate get() then save() lets two concurrent deliveries both run the handler.
+  claim(event: StoredStripeEvent): Promise<boolean>;
+  save(event: StoredStripeEvent): Promise<void>;
+  list(): Promise<StoredStripeEvent[]>;
+}
+
+export interface StripeEventRetention {
+  maxAgeDays: number;   // replays are for recent bugs, not an archive
+  maxEvents: number;    // hard cap so a webhook storm can't fill the disk
+}
+
+// Raw bodies carry customer emails, names and addresses: keep them short-lived and owner-readable only
+export class FileStripeEventStore implements StripeEventStore {
+  private events: StoredStripeEvent[];
+
+  constructor(
+    private path: string,
+    private retention: StripeEventRetention = { maxAgeDays: 30, maxEvents: 10_000 },
+    private clock: () => Date = () => new Date()
+  ) {
+    this.events = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : [];
+  }
+
+  async get(id: string): Promise<StoredStripeEvent | undefined> {
+    const event = this.events.find(e => e.id === id);
+    return event && { ...event };
+  }
+
+  async claim(event: StoredStripeEvent): Promise<boolean> {
+    // No await between the check and the insert - nothing else can interleave in this process
+    const existing = this.events.find(e => e.id === event.id);
+    if (existing && existing.status !== 'failed') return false;
+    this.events = [...this.events.filter(e => e.id !== event.id), { ...event }];
+    this.flush();
+    return true;
+  }
+
+  async save(event: StoredStripeEvent): Promise<void> {
+    this.events = [...this.events.filter(e => e.id !== event.id), { ...event }];
+    this.flush();
+  }
+
+  async list(): Promise<StoredStripeEvent[]> {
+    return this.events.map(e => ({ ...e }));
+  }
+
+  private prune(): void {
+    const cutoff = this.clock().getTime() - this.retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    this.events = this.events
+      .filter(e => new Date(e.receivedAt).getTime() >= cutoff)
+      .slice(-this.retention.maxEvents);
+  }
+
+  private flush(): void {
+    this.prune();
+    // Write-then-rename so a crash mid-write never leaves a half-written file
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(`${this.path}.tmp`, JSON.stringify(this.events, null, 2), { mode: 0o600 });
+    renameSync(`${this.path}.tmp`, this.path);
+  }
+}
+
+export class StripeWebhookHandler {
+  private handlers: { [T in StripeEventType]?: StripeEventHandler<T> } = {};
+
+  constructor(
+    private secret: string,
+    private store: StripeEventStore,
+    private clock: () => Date = () => new Date()
+  ) {
+    // An empty HMAC key is a key everyone knows - any caller could sign their own "invoice.paid"
+    if (!secret) {
+      throw new Error('Stripe webhook secret is missing - set STRIPE_WEBHOOK_SECRET');
+    }
+  }
+
+  on<T extends StripeEventType>(type: T, handler: StripeEventHandler<T>): this {
+    (this.handlers as Record<string, StripeEventHandler<any>>)[type] = handler;
+    return this;
+  }
+
+  // POST /webhooks/stripe - needs the raw body, not a re-serialized JSON.parse result
+  // 400 = Stripe gives up (bad signature), 500 = Stripe retries later, 200 = done
+  async handle(rawBody: string, signatureHeader: string | undefined): Promise<{ status: 200 | 400 | 500; duplicate?: boolean }> {
+    try {
+      verifyStripeSignature(rawBody, signatureHeader, this.secret, 300, this.clock);
+    } catch (error) {
+      console.warn(`🚫 Rejected Stripe webhook: ${error.message}`);
+      return { status: 400 };
+    }
+
+    const event: StripeEvent = JSON.parse(rawBody);
+
+    // Stripe delivers at-least-once - the same event can arrive twice, even concurrently.
+    // A crash mid-dispatch leaves it 'received': replay({ status: 'received' }) picks those up
+    const claimed = await this.store.claim({ id: event.id, type: event.type, rawBody, receivedAt: this.clock().toISOString(), status: 'received' });
+    if (!claimed) {
+      return { status: 200, duplicate: true };
+    }
+
+    const stored = await this.dispatch(event.id, rawBody);
+    return { status: stored.status === 'failed' ? 500 : 200 };
+  }
+
+  // Re-run stored events through today's handlers - after a bug fix or a lost database
+  async replay(filter: { ids?: string[]; type?: string; status?: StoredStripeEvent['status'] } = {}): Promise<StoredStripeEvent[]> {
+    const events = (await this.store.list()).filter(event =>
+      (!filter.ids || filter.ids.includes(event.id)) &&
+      (!filter.type || event.type === filter.type) &&
+      (!filter.status || event.status === filter.status));
+
+    const results: StoredStripeEvent[] = [];
+    for (const event of events) {
+      results.push(await this.dispatch(event.id, event.rawBody));
+    }
+    return results;
+  }
+
+  private async dispatch(id: string, rawBody: string): Promise<StoredStripeEvent> {
+    const event: StripeEvent = JSON.parse(rawBody);
+    const stored = (await this.store.get(id))!;
+    const handler = (this.handlers as Record<string, StripeEventHandler<any>>)[event.type];
+
+    try {
+      if (handler) {
+        await handler(event);
+        stored.status = 'processed';
+      } else {
+        stored.status = 'ignored';
+      }
+      stored.error = undefined;
+    } catch (error) {
+      // Out-of-order events (e.g. payment_failed after deleted) are expected - don't make Stripe retry forever
+      stored.status = error instanceof InvalidTransitionError ? 'ignored' : 'failed';
+      stored.error = error.message;
+      if (stored.status === 'ignored') {
+        console.warn(`⚠️ Stripe event ${event.id} (${event.type}) ignored: ${error.message}`);
+      } else {
+        console.error(`❌ Stripe event ${event.id} (${event.type}) failed: ${error.message}`);
+      }
+    }
+
+    await this.store.save(stored);
+    return stored;
+  }
+}
+
+class PaymentSlice6 extends PaymentSlice5 {
+  readonly webhooks: StripeWebhookHandler;
+
+  constructor(
+    webhookSecret: string = process.env.STRIPE_WEBHOOK_SECRET || '',
+    eventStore: StripeEventStore = new FileStripeEventStore('./data/stripe-events.json'),
+    clock: () => Date = () => new Date()
+  ) {
+    super(clock);
+    this.webhooks = new StripeWebhookHandler(webhookSecret, eventStore, clock)
+      .on('invoice.payment_failed', async event => {
+        const subscription = this.byStripeId(event.data.object.subscription);
+        if (subscription.status !== 'past_due') {
+          this.lifecycle.markPastDue(subscription, `invoice payment failed (attempt ${event.data.object.attempt_count})`);
+        }
+      })
+      .on('invoice.paid', async event => {
+        const subscription = this.byStripeId(event.data.object.subscription);
+        if (subscription.status === 'past_due') this.lifecycle.activate(subscription);
+      })
+      .on('customer.subscription.updated', async event => {
+        const subscription = this.byStripeId(event.data.object.id);
+        // Canceled (or un-canceled) in the Stripe customer portal. Only an active period can be
+        // scheduled locally - a trial or past_due one ends via the customer.subscription.deleted that follows
+        if (event.data.object.cancel_at_period_end && !subscription.cancelAtPeriodEnd) {
+          if (subscription.status === 'active') {
+            this.lifecycle.cancel(subscription, { atPeriodEnd: true, reason: 'canceled in Stripe' });
+          }
+        } else if (!event.data.object.cancel_at_period_end && subscription.cancelAtPeriodEnd) {
+          this.lifecycle.keep(subscription);
+        }
+        subscription.currentPeriodEnd = new Date(event.data.object.current_period_end * 1000);
+      })
+      .on('customer.subscription.deleted', async event => {
+        const subscription = this.byStripeId(event.data.object.id);
+        if (subscription.status !== 'canceled') {
+          this.lifecycle.cancel(subscription, { atPeriodEnd: false, reason: 'deleted in Stripe' });
+        }
+      });
+  }
+
+  private byStripeId(stripeSubscriptionId: string): SubscriptionRecord {
+    const subscription = this.subscriptions.find(sub => sub.stripeSubscriptionId === stripeSubscriptionId);
+    if (!subscription) throw new Error(`No local subscription for ${stripeSubscriptionId}`);
+    return subscription;
+  }
+}
+
+// Local stand-in for Stripe: builds correctly signed deliveries so tests never need the network
+export class FakeStripeWebhooks {
+  private sequence = 0;
+
+  constructor(private secret: string, private clock: () => Date = () => new Date()) {}
+
+  event<T extends StripeEventType>(type: T, object: Extract<StripeEvent, { type: T }>['data']['object']): { rawBody: string; signature: string; eventId: string } {
+    const eventId = `evt_test_${++this.sequence}`;
+    const rawBody = JSON.stringify({ id: eventId, type, created: Math.floor(this.clock().getTime() / 1000), data: { object } });
+    return { rawBody, signature: this.sign(rawBody), eventId };
+  }
+
+  sign(rawBody: string, timestamp: number = Math.floor(this.clock().getTime() / 1000)): string {
+    return `t=${timestamp},v1=${signStripePayload(rawBody, timestamp, this.secret)}`;
+  }
+}
+
+// const stripe = new FakeStripeWebhooks('whsec_test');
+// const slice = new PaymentSlice6('whsec_test');
+// const { rawBody, signature } = stripe.event('invoice.payment_failed', { subscription: 'sub_123', attempt_count: 1 });
+// await slice.webhooks.handle(rawBody, signature); // → { status: 200 }, subscription is now past_due
+// await slice.webhooks.handle(rawBody, signature); // → { status: 200, duplicate: true }
+
+// Ship again! Local subscription state now follows what actually happened in Stripe.
+// Get feedback: "Why did I lose access?" becomes a lookup in the stored events, not a guess.
+
+// 🚀 SLICE 7 (Week 7): Dunning - win back failed renewals instead of silently losing them
+// Most failed renewals are expired cards, not churn. Retry on a schedule, tell the customer,
+// keep their access for a grace period, and only then downgrade or cancel.
+export interface DunningPolicy {
+  retryScheduleDays: number[];  // days after the first failure, e.g. [1, 3, 5, 7]
+  gracePeriodDays: number;      // access kept this long after the first failure
+  finalAction: { type: 'cancel' } | { type: 'downgrade'; plan: 'basic' };
+}
+
+export const DEFAULT_DUNNING_POLICY: DunningPolicy = {
+  retryScheduleDays: [1, 3, 5, 7],
+  gracePeriodDays: 7,
+  finalAction: { type: 'cancel' }
+};
+
+export type DunningNotice =
+  | { type: 'payment_failed'; nextRetryAt: Date; graceEndsAt: Date }
+  | { type: 'retry_failed'; attempt: number; nextRetryAt: Date }
+  | { type: 'final_warning'; nextRetryAt: Date }
+  | { type: 'recovered' }
+  | { type: 'downgraded'; plan: string }
+  | { type: 'canceled' };
+
+export interface DunningCase {
+  subscriptionId: string;
+  startedAt: Date;
+  attempts: number;         // retries made so far (the original failure not included)
+  nextRetryAt: Date;
+  status: 'open' | 'recovered' | 'downgraded' | 'canceled';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DunningManager {
+  private cases = new Map<string, DunningCase>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private lifecycle: SubscriptionStateMachine,
+    private charge: (subscription: SubscriptionRecord) => Promise<void>,
+    private notify: (subscription: SubscriptionRecord, notice: DunningNotice) => Promise<void>,
+    private policy: DunningPolicy = DEFAULT_DUNNING_POLICY,
+    private clock: () => Date = () => new Date()
+  ) {}
+
+  async start(subscription: SubscriptionRecord, reason: string = 'renewal payment failed'): Promise<DunningCase> {
+    const existing = this.cases.get(subscription.id);
+    if (existing?.status === 'open') return existing;
+
+    const now = this.clock();
+    if (subscription.status !== 'past_due') this.lifecycle.markPastDue(subscription, reason);
+    subscription.graceEndsAt = new Date(now.getTime() + this.policy.gracePeriodDays * DAY_MS);
+
+    const dunningCase: DunningCase = {
+      subscriptionId: subscription.id,
+      startedAt: now,
+      attempts: 0,
+      nextRetryAt: this.retryAt(now, 0),
+      status: 'open'
+    };
+    this.cases.set(subscription.id, dunningCase);
+
+    await this.notify(subscription, { type: 'payment_failed', nextRetryAt: dunningCase.nextRetryAt, graceEndsAt: subscription.graceEndsAt });
+    return dunningCase;
+  }
+
+  // Run from a timer, or call directly with a fake clock to walk the whole schedule in a test
+  async processDue(subscriptions: SubscriptionRecord[]): Promise<void> {
+    const now = this.clock();
+    for (const subscription of subscriptions) {
+      const dunningCase = this.cases.get(subscription.id);
+      if (dunningCase?.status !== 'open') continue;
+
+      // Paid or canceled some other way (webhook, support) - never charge a card that's no longer overdue
+      if (subscription.status !== 'past_due') {
+        this.close(subscription);
+        continue;
+      }
+
+      if (dunningCase.nextRetryAt > now) continue;
+      await this.retry(subscription, dunningCase);
+    }
+  }
+
+  // Customer fixed their card - don't make them wait for the next scheduled retry
+  async paymentMethodUpdated(subscription: SubscriptionRecord): Promise<boolean> {
+    const dunningCase = this.cases.get(subscription.id);
+    if (dunningCase?.status !== 'open') return false;
+    // Already settled some other way - sync the case instead of charging again
+    if (subscription.status !== 'past_due') {
+      this.close(subscription);
+      return false;
+    }
+
+    try {
+      await this.charge(subscription);
+    } catch {
+      return false; // the scheduled retries carry on as before
+    }
+    await this.recover(subscription, dunningCase);
+    return true;
+  }
+
+  // Close the open case to match the subscription, e.g. after an invoice.paid webhook
+  close(subscription: SubscriptionRecord): void {
+    const dunningCase = this.cases.get(subscription.id);
+    if (dunningCase?.status !== 'open') return;
+    dunningCase.status = subscription.status === 'canceled' || subscription.status === 'expired' ? 'canceled' : 'recovered';
+  }
+
+  getCase(subscriptionId: string): DunningCase | undefined {
+    const dunningCase = this.cases.get(subscriptionId);
+    return dunningCase && { ...dunningCase };
+  }
+
+  startTimer(getSubscriptions: () => SubscriptionRecord[], intervalMs: number = 60 * 60 * 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue(getSubscriptions()).catch(error => console.error('Dunning run failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stopTimer(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async retry(subscription: SubscriptionRecord, dunningCase: DunningCase): Promise<void> {
+    dunningCase.attempts++;
+
+    let paid = false;
+    try {
+      await this.charge(subscription);
+      paid = true;
+    } catch (error) {
+      console.warn(`⚠️ Dunning retry ${dunningCase.attempts} failed for ${subscription.id}: ${error.message}`);
+    }
+
+    // Outside the try: a problem after a successful charge must never look like a declined card
+    if (paid) {
+      await this.recover(subscription, dunningCase);
+      return;
+    }
+
+    if (dunningCase.attempts >= this.policy.retryScheduleDays.length) {
+      await this.finish(subscription, dunningCase);
+      return;
+    }
+
+    dunningCase.nextRetryAt = this.retryAt(dunningCase.startedAt, dunningCase.attempts);
+    const isLastRetry = dunningCase.attempts === this.policy.retryScheduleDays.length - 1;
+    await this.notify(subscription, isLastRetry
+      ? { type: 'final_warning', nextRetryAt: dunningCase.nextRetryAt }
+      : { type: 'retry_failed', attempt: dunningCase.attempts, nextRetryAt: dunningCase.nextRetryAt });
+  }
+
+  private async recover(subscription: SubscriptionRecord, dunningCase: DunningCase): Promise<void> {
+    // Close first, so nothing can retry the charge again; activate() starts the newly paid period
+    dunningCase.status = 'recovered';
+    this.lifecycle.activate(subscription);
+    await this.notify(subscription, { type: 'recovered' });
+  }
+
+  // Out of retries: try the cheaper plan once if the policy says so, otherwise cancel
+  private async finish(subscription: SubscriptionRecord, dunningCase: DunningCase): Promise<void> {
+    const finalAction = this.policy.finalAction;
+
+    if (finalAction.type === 'downgrade' && subscription.plan !== finalAction.plan) {
+      const previousPlan = subscription.plan;
+      subscription.plan = finalAction.plan;
+      let paid = false;
+      try {
+        await this.charge(subscription);
+        paid = true;
+      } catch {
+        subscription.plan = previousPlan;
+      }
+
+      if (paid) {
+        dunningCase.status = 'downgraded';
+        this.lifecycle.activate(subscription);
+        subscription.history.push({ from: 'active', to: 'active', at: this.clock(), reason: `downgraded from ${previousPlan} after failed renewals` });
+        await this.notify(subscription, { type: 'downgraded', plan: finalAction.plan });
+        return;
+      }
+    }
+
+    this.lifecycle.cancel(subscription, { atPeriodEnd: false, reason: 'unpaid after dunning' });
+    dunningCase.status = 'canceled';
+    await this.notify(subscription, { type: 'canceled' });
+  }
+
+  private retryAt(startedAt: Date, attempt: number): Date {
+    return new Date(startedAt.getTime() + this.policy.retryScheduleDays[attempt] * DAY_MS);
+  }
+}
+
+export class PaymentSlice7 extends PaymentSlice6 {
+  readonly dunning: DunningManager;
+
+  constructor(
+    webhookSecret?: string,
+    eventStore?: StripeEventStore,
+    clock: () => Date = () => new Date(),
+    policy: DunningPolicy = DEFAULT_DUNNING_POLICY
+  ) {
+    super(webhookSecret, eventStore, clock);
+    this.dunning = new DunningManager(
+      this.lifecycle,
+      subscription => this.chargeRenewal(subscription),
+      (subscription, notice) => this.sendDunningEmail(subscription, notice),
+      policy,
+      clock
+    );
+
+    // A failed invoice from Stripe opens a dunning case instead of just flipping the status
+    this.webhooks.on('invoice.payment_failed', async event => {
+      const subscription = this.subscriptions.find(sub => sub.stripeSubscriptionId === event.data.object.subscription);
+      if (!subscription) throw new Error(`No local subscription for ${event.data.object.subscription}`);
+      await this.dunning.start(subscription, `invoice payment failed (attempt ${event.data.object.attempt_count})`);
+    });
+
+    // Paid through Stripe (e.g. its own retry succeeded) - close our case so we don't charge again
+    this.webhooks.on('invoice.paid', async event => {
+      const subscription = this.subscriptions.find(sub => sub.stripeSubscriptionId === event.data.object.subscription);
+      if (!subscription) throw new Error(`No local subscription for ${event.data.object.subscription}`);
+      if (subscription.status === 'past_due') this.lifecycle.activate(subscription);
+      this.dunning.close(subscription);
+    });
+  }
+
+  // Periodic job: charge subscriptions whose period ended, hand failures to dunning, run due retries
+  async processRenewals(): Promise<void> {
+    for (const subscription of this.subscriptions) {
+      const due = subscription.status === 'active' && !subscription.cancelAtPeriodEnd && this.clock() >= subscription.currentPeriodEnd;
+      if (!due) {
+        this.lifecycle.endPeriodIfDue(subscription);
+        continue;
+      }
+
+      try {
+        await this.chargeRenewal(subscription);
+        this.lifecycle.endPeriodIfDue(subscription);
+      } catch (error) {
+        await this.dunning.start(subscription, `renewal failed: ${error.message}`);
+      }
+    }
+
+    await this.dunning.processDue(this.subscriptions);
+  }
+
+  async updatePaymentMethod(userId: string, paymentMethodId: string): Promise<void> {
+    const subscription = this.findCurrent(userId);
+    if (!subscription) {
+      throw new Error('No active subscription found');
+    }
+
+    console.log(`💳 ${userId} updated payment method to ${paymentMethodId}`);
+    const recovered = await this.dunning.paymentMethodUpdated(subscription);
+    if (recovered) console.log(`✅ Subscription ${subscription.id} recovered`);
+  }
+
+  protected async chargeRenewal(subscription: SubscriptionRecord): Promise<void> {
+    const renewal = this.proration.renewal(subscription);
+
+    if (renewal.chargeCents > 0) {
+      // Simplified Stripe invoice payment - throws when the card is declined
+      console.log(`Charging renewal for ${subscription.id} (${subscription.plan}) $${(renewal.chargeCents / 100).toFixed(2)}`);
+    } else {
+      console.log(`Renewal for ${subscription.id} (${subscription.plan}) paid from account credit`);
+    }
+    subscription.creditBalanceCents = renewal.creditBalanceAfterCents;
+  }
+
+  protected async sendDunningEmail(subscription: SubscriptionRecord, notice: DunningNotice): Promise<void> {
+    // Simplified email - each notice type maps to one template
+    console.log(`📧 Dunning email to ${subscription.userId}: ${notice.type}`);
+  }
+}
+
+// Ship again! Failed renewals now get a week of retries and reminders before anyone loses access.
+// Get feedback: "Thanks for the heads-up about my card!" - and recovered revenue on the dashboard.
+
 // Key takeaway: Each slice generates revenue and user feedback immediately!
 // Week 1: Users can subscribe (manual payment) → $$$
 // Week 2: Automated Stripe payments → More $$$
 // Week 3: Users can upgrade/cancel → Better retention
 // Week 4: Usage tracking → Upgrade encouragement
 // Week 5: Free trials → More signups
+// Week 6: Stripe webhooks → Failed renewals and portal cancellations handled
+// Week 7: Dunning → Failed renewals recovered instead of churned
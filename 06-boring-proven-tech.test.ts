@@ -0,0 +1,64 @@
+// Price adapters against recorded provider responses - no network, no API keys
+// Run: node --test (after compiling) or npx tsx --test 06-boring-proven-tech.test.ts
+// Re-record a fixture when a provider changes its format: curl the URL, paste the body into fixtures/price-providers.json
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  CoinCapAdapter,
+  CoinGeckoAdapter,
+  CryptoCompareAdapter,
+  FetchFn,
+  PriceProvider,
+  PriceProviderError,
+  PriceProviderErrorCode
+} from './06-boring-proven-tech';
+
+type Fixture = { status: number; body: unknown };
+
+const fixtures: Record<string, Fixture> = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'price-providers.json'), 'utf8'));
+
+function replayFetch(recorded: Record<string, Fixture>): FetchFn {
+  return async (url: string) => {
+    const fixture = recorded[url];
+    if (!fixture) throw new Error(`No fixture recorded for ${url}`);
+    return new Response(JSON.stringify(fixture.body), { status: fixture.status });
+  };
+}
+
+const fetchFn = replayFetch(fixtures);
+const cases: Array<{ adapter: PriceProvider; btc: number; sol: PriceProviderErrorCode }> = [
+  { adapter: new CoinGeckoAdapter(3, fetchFn), btc: 67012.5, sol: 'MALFORMED_RESPONSE' },         // {} - no price for solana
+  { adapter: new CoinCapAdapter(2, fetchFn), btc: 67010.123456789, sol: 'HTTP_ERROR' },           // 404
+  { adapter: new CryptoCompareAdapter(1, fetchFn), btc: 67015.2, sol: 'MALFORMED_RESPONSE' }      // 200 with Response: Error
+];
+
+async function rejectsWith(promise: Promise<unknown>, code: PriceProviderErrorCode): Promise<void> {
+  await assert.rejects(promise, error => error instanceof PriceProviderError && error.code === code);
+}
+
+for (const { adapter, btc, sol } of cases) {
+  test(`${adapter.name} parses a recorded BTC price`, async () => {
+    assert.equal(await adapter.getPrice('btc'), btc);
+    assert.equal(await adapter.getPrice('bitcoin'), btc);
+  });
+
+  test(`${adapter.name} turns a recorded SOL failure into ${sol}`, async () => {
+    await rejectsWith(adapter.getPrice('SOL'), sol);
+  });
+
+  test(`${adapter.name} rejects unknown symbols before calling out`, async () => {
+    await rejectsWith(adapter.getPrice('DOGE'), 'UNSUPPORTED_SYMBOL');
+  });
+}
+
+test('a price of zero or a non-JSON body is malformed, not a price', async () => {
+  const broken = replayFetch({
+    'https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd': { status: 200, body: { bitcoin: { usd: 0 } } }
+  });
+  await rejectsWith(new CoinGeckoAdapter(3, broken).getPrice('BTC'), 'MALFORMED_RESPONSE');
+
+  const notJson: FetchFn = async () => new Response('<html>maintenance</html>', { status: 200 });
+  await rejectsWith(new CoinCapAdapter(2, notJson).getPrice('BTC'), 'MALFORMED_RESPONSE');
+});
@@ -1,5 +1,9 @@
 // Principle 6: Prefer Boring, Proven Tech
 
+import type { VersionedConfigStore } from './02-reversible-decisions';
+import { CircuitBreaker, Degradation, DegradationCounter, Degraded, HttpError, wrap, withRetry, withTimeout } from './03-contain-blast-radius';
+import { Gauge, metrics, MetricsRegistry } from './04-observability-first';
+
 // ❌ BAD: Choosing exciting new tech without considering trade-offs
 class ExcitingTechChoices {
   // "Let's use the new GraphQL Federation with microservices!"
@@ -66,28 +70,378 @@ class ExcitingTechChoices {
   }
 }
 
+// ✅ GOOD: One boring adapter per price source
+// Each provider has its own URL format, symbol names (BTC vs bitcoin) and response shape.
+// Guessing with `data[symbol]?.usd || data.data?.[0]?.priceUsd || 0` silently returns $0;
+// an adapter knows its format and throws a typed error when the response doesn't match.
+export type PriceProviderErrorCode = 'UNSUPPORTED_SYMBOL' | 'HTTP_ERROR' | 'MALFORMED_RESPONSE';
+
+export class PriceProviderError extends Error {
+  constructor(
+    public provider: string,
+    public code: PriceProviderErrorCode,
+    message: string,
+    public status?: number
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'PriceProviderError';
+  }
+}
+
+export interface PriceProvider {
+  name: string;
+  weight: number;
+  supports(symbol: string): boolean;
+  getPrice(symbol: string, signal?: AbortSignal): Promise<number>;
+}
+
+export type FetchFn = (url: string, init?: { signal?: AbortSignal }) => Promise<Response>;
+
+// Canonical ticker → each provider's own id
+const PRICE_SYMBOLS: Record<string, { coingecko: string; coincap: string; cryptocompare: string }> = {
+  BTC: { coingecko: 'bitcoin', coincap: 'bitcoin', cryptocompare: 'BTC' },
+  ETH: { coingecko: 'ethereum', coincap: 'ethereum', cryptocompare: 'ETH' },
+  SOL: { coingecko: 'solana', coincap: 'solana', cryptocompare: 'SOL' }
+};
+
+// 'btc', 'BTC' and 'bitcoin' all mean BTC
+function toCanonicalSymbol(symbol: string): string | null {
+  const wanted = symbol.trim().toLowerCase();
+  for (const [ticker, ids] of Object.entries(PRICE_SYMBOLS)) {
+    if (ticker.toLowerCase() === wanted || Object.values(ids).some(id => id.toLowerCase() === wanted)) {
+      return ticker;
+    }
+  }
+  return null;
+}
+
+async function fetchProviderJson(provider: string, fetchFn: FetchFn, url: string, signal?: AbortSignal): Promise<any> {
+  const response = await fetchFn(url, { signal });
+  if (!response.ok) {
+    throw new PriceProviderError(provider, 'HTTP_ERROR', `HTTP ${response.status}`, response.status);
+  }
+  try {
+    return await response.json();
+  } catch {
+    throw new PriceProviderError(provider, 'MALFORMED_RESPONSE', 'Response is not JSON');
+  }
+}
+
+function toPrice(provider: string, raw: unknown): number {
+  const price = typeof raw === 'string' ? Number(raw) : raw;
+  if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+    throw new PriceProviderError(provider, 'MALFORMED_RESPONSE', `Expected a positive price, got ${JSON.stringify(raw)}`);
+  }
+  return price;
+}
+
+function providerIdFor(provider: string, symbol: string, key: 'coingecko' | 'coincap' | 'cryptocompare'): string {
+  const ticker = toCanonicalSymbol(symbol);
+  if (!ticker) throw new PriceProviderError(provider, 'UNSUPPORTED_SYMBOL', `Unknown symbol ${symbol}`);
+  return PRICE_SYMBOLS[ticker][key];
+}
+
+// GET /simple/price?ids=bitcoin&vs_currencies=usd → { "bitcoin": { "usd": 67012.5 } }
+export class CoinGeckoAdapter implements PriceProvider {
+  name = 'CoinGecko';
+
+  constructor(public weight: number = 3, private fetchFn: FetchFn = fetch) {}
+
+  supports(symbol: string): boolean {
+    return toCanonicalSymbol(symbol) !== null;
+  }
+
+  async getPrice(symbol: string, signal?: AbortSignal): Promise<number> {
+    const id = providerIdFor(this.name, symbol, 'coingecko');
+    const data = await fetchProviderJson(this.name, this.fetchFn, `https://api.coingecko.com/api/v3/simple/price?ids=${id}&vs_currencies=usd`, signal);
+    return toPrice(this.name, data?.[id]?.usd);
+  }
+}
+
+// GET /v2/assets/bitcoin → { "data": { "id": "bitcoin", "priceUsd": "67010.12" } }
+export class CoinCapAdapter implements PriceProvider {
+  name = 'CoinCap';
+
+  constructor(public weight: number = 2, private fetchFn: FetchFn = fetch) {}
+
+  supports(symbol: string): boolean {
+    return toCanonicalSymbol(symbol) !== null;
+  }
+
+  async getPrice(symbol: string, signal?: AbortSignal): Promise<number> {
+    const id = providerIdFor(this.name, symbol, 'coincap');
+    const data = await fetchProviderJson(this.name, this.fetchFn, `https://api.coincap.io/v2/assets/${id}`, signal);
+    return toPrice(this.name, data?.data?.priceUsd);
+  }
+}
+
+// GET /data/price?fsym=BTC&tsyms=USD → { "USD": 67015.2 }
+// Errors come back as HTTP 200 with { "Response": "Error", "Message": "..." }
+export class CryptoCompareAdapter implements PriceProvider {
+  name = 'CryptoCompare';
+
+  constructor(public weight: number = 1, private fetchFn: FetchFn = fetch) {}
+
+  supports(symbol: string): boolean {
+    return toCanonicalSymbol(symbol) !== null;
+  }
+
+  async getPrice(symbol: string, signal?: AbortSignal): Promise<number> {
+    const id = providerIdFor(this.name, symbol, 'cryptocompare');
+    const data = await fetchProviderJson(this.name, this.fetchFn, `https://min-api.cryptocompare.com/data/price?fsym=${id}&tsyms=USD`, signal);
+    if (data?.Response === 'Error') {
+      throw new PriceProviderError(this.name, 'MALFORMED_RESPONSE', data.Message || 'Error response');
+    }
+    return toPrice(this.name, data?.USD);
+  }
+}
+
+// Adapters are checked offline against recorded responses: fixtures/price-providers.json, 06-boring-proven-tech.test.ts
+
+// ✅ GOOD: Weighted, health-aware routing - still boring, just honest about the weights
+// Weights spread load (3:2:1), a rolling window tracks success rate and latency,
+// and a provider that keeps failing sits out for a while instead of eating retries.
+// Works for any list of { name, weight } - price providers, LLM endpoints, mirrors...
+export interface RoutedTarget {
+  name: string;
+  weight: number;
+}
+
+interface TargetHealth {
+  name: string;
+  weight: number;
+  samples: number;
+  successRate: number;
+  avgLatencyMs: number;
+  score: number;               // 0..1, multiplies the weight
+  ejectedUntil: Date | null;
+}
+
+interface RouterOptions {
+  windowSize?: number;          // Outcomes remembered per target
+  minSamples?: number;          // Don't judge a target on 2 requests
+  ejectBelowSuccessRate?: number;
+  ejectionMs?: number;
+  latencyBudgetMs?: number;     // Slower than this on average lowers the score
+}
+
+export class WeightedRouter<T extends RoutedTarget> {
+  private outcomes = new Map<string, Array<{ ok: boolean; latencyMs: number }>>();
+  private ejectedUntil = new Map<string, number>();
+  private options: Required<RouterOptions>;
+
+  constructor(private targets: T[], options: RouterOptions = {}) {
+    this.options = {
+      windowSize: 50,
+      minSamples: 10,
+      ejectBelowSuccessRate: 0.5,
+      ejectionMs: 30000,
+      latencyBudgetMs: 1000,
+      ...options
+    };
+  }
+
+  // Healthy targets in weighted-random order; ejected ones go last as a last resort
+  order(now: number = Date.now()): T[] {
+    const healthy = this.targets.filter(t => !this.isEjected(t.name, now));
+    const ejected = this.targets.filter(t => this.isEjected(t.name, now));
+
+    const ordered: T[] = [];
+    const pool = [...healthy];
+    while (pool.length > 0) {
+      const weights = pool.map(t => t.weight * Math.max(this.score(t.name), 0.01));
+      let pick = Math.random() * weights.reduce((a, b) => a + b, 0);
+      const index = weights.findIndex(w => (pick -= w) <= 0);
+      ordered.push(...pool.splice(index === -1 ? pool.length - 1 : index, 1));
+    }
+
+    return [...ordered, ...ejected.sort((a, b) => b.weight - a.weight)];
+  }
+
+  record(name: string, ok: boolean, latencyMs: number, now: number = Date.now()): void {
+    const window = this.outcomes.get(name) || [];
+    window.push({ ok, latencyMs });
+    if (window.length > this.options.windowSize) window.shift();
+    this.outcomes.set(name, window);
+
+    const { samples, successRate } = this.stats(name);
+    if (samples >= this.options.minSamples && successRate < this.options.ejectBelowSuccessRate) {
+      console.warn(`🚫 Ejecting ${name} for ${this.options.ejectionMs}ms (success rate ${Math.round(successRate * 100)}%)`);
+      this.ejectedUntil.set(name, now + this.options.ejectionMs);
+      this.outcomes.delete(name); // Fresh start when it comes back
+    }
+  }
+
+  getHealth(now: number = Date.now()): TargetHealth[] {
+    return this.targets.map(target => {
+      const { samples, successRate, avgLatencyMs } = this.stats(target.name);
+      return {
+        name: target.name,
+        weight: target.weight,
+        samples,
+        successRate,
+        avgLatencyMs,
+        score: this.score(target.name),
+        ejectedUntil: this.isEjected(target.name, now) ? new Date(this.ejectedUntil.get(target.name)!) : null
+      };
+    });
+  }
+
+  private isEjected(name: string, now: number): boolean {
+    return (this.ejectedUntil.get(name) || 0) > now;
+  }
+
+  private score(name: string): number {
+    const { samples, successRate, avgLatencyMs } = this.stats(name);
+    if (samples === 0) return 1; // Benefit of the doubt for new/readmitted targets
+    const latencyFactor = avgLatencyMs > this.options.latencyBudgetMs ? this.options.latencyBudgetMs / avgLatencyMs : 1;
+    return successRate * latencyFactor;
+  }
+
+  private stats(name: string) {
+    const window = this.outcomes.get(name) || [];
+    const samples = window.length;
+    return {
+      samples,
+      successRate: samples ? window.filter(o => o.ok).length / samples : 1,
+      avgLatencyMs: samples ? window.reduce((sum, o) => sum + o.latencyMs, 0) / samples : 0
+    };
+  }
+}
+
+// ✅ GOOD: Consensus price for money-moving decisions
+// For display, one provider is fine. For executing a trade, ask several at once,
+// throw out quotes that disagree with the median, and refuse to trade without a quorum.
+export class QuorumNotReachedError extends Error {
+  constructor(public result: ConsensusReport, required: number) {
+    super(`Price quorum not reached: ${result.agreed.length}/${required} sources agreed`);
+    this.name = 'QuorumNotReachedError';
+  }
+}
+
+interface ConsensusOptions {
+  quorum?: number;        // Minimum agreeing sources
+  deadlineMs?: number;    // Slow sources are dropped, not waited for
+  maxDeviation?: number;  // 0.01 = quotes must be within 1% of the median
+}
+
+interface ConsensusReport {
+  symbol: string;
+  agreed: Array<{ source: string; price: number }>;
+  rejected: Array<{ source: string; price: number; deviation: number }>;
+  failed: Array<{ source: string; error: string }>;
+}
+
+export interface ConsensusPrice extends ConsensusReport {
+  price: number;  // Median of the agreeing quotes
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export async function getConsensusPrice(
+  providers: PriceProvider[],
+  symbol: string,
+  { quorum = 2, deadlineMs = 2000, maxDeviation = 0.01 }: ConsensusOptions = {}
+): Promise<ConsensusPrice> {
+  const candidates = providers.filter(p => p.supports(symbol));
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const deadline = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`No answer within ${deadlineMs}ms`));
+    }, deadlineMs);
+  });
+  deadline.catch(() => {}); // Only matters for sources still running
+
+  const settled = await Promise.allSettled(
+    candidates.map(p => Promise.race([p.getPrice(symbol, controller.signal), deadline]))
+  );
+  clearTimeout(timeoutId!);
+  controller.abort(); // Done - cancel anything still in flight
+
+  const quotes: Array<{ source: string; price: number }> = [];
+  const report: ConsensusReport = { symbol, agreed: [], rejected: [], failed: [] };
+
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      quotes.push({ source: candidates[i].name, price: outcome.value });
+    } else {
+      report.failed.push({ source: candidates[i].name, error: outcome.reason?.message || String(outcome.reason) });
+    }
+  });
+
+  if (quotes.length > 0) {
+    const mid = median(quotes.map(q => q.price));
+    for (const quote of quotes) {
+      const deviation = Math.abs(quote.price - mid) / mid;
+      if (deviation <= maxDeviation) {
+        report.agreed.push(quote);
+      } else {
+        report.rejected.push({ ...quote, deviation });
+      }
+    }
+  }
+
+  // Explicit failure beats a single unverified price
+  if (report.agreed.length < quorum) {
+    throw new QuorumNotReachedError(report, quorum);
+  }
+
+  return { ...report, price: median(report.agreed.map(q => q.price)) };
+}
+
 // ✅ GOOD: Boring tech choices that solve real problems
 class BoringTechChoices {
+  private degradationCounter: DegradationCounter;
+
+  constructor(
+    private config: VersionedConfigStore,
+    degradationCounter?: DegradationCounter,
+    metricsRegistry: MetricsRegistry = metrics
+  ) {
+    this.degradationCounter = degradationCounter ?? new DegradationCounter(metricsRegistry);
+    this.llmQueueDepth = metricsRegistry.gauge('llm_queue_depth', 'LLM requests waiting for a batch slot');
+    this.llmQueueCapacity = metricsRegistry.gauge('llm_queue_capacity', 'LLM requests processed per batch');
+  }
 
   // SCENARIO: Need fast crypto prices with high availability
   // EXCITING CHOICE: Build custom load balancer with ML-based routing
   // BORING CHOICE: Use proven load balancing pattern
 
-  private priceProviders = [
-    { name: 'CoinGecko', url: 'https://api.coingecko.com/api/v3/simple/price', weight: 3 },
-    { name: 'CoinCap', url: 'https://api.coincap.io/v2/assets', weight: 2 },
-    { name: 'CryptoCompare', url: 'https://min-api.cryptocompare.com/data/price', weight: 1 }
+  private priceProviders: PriceProvider[] = [
+    new CoinGeckoAdapter(3),
+    new CoinCapAdapter(2),
+    new CryptoCompareAdapter(1)
   ];
+  private priceRouter = new WeightedRouter(this.priceProviders);
 
-  async getCryptoPrice(symbol: string): Promise<number> {
-    // Boring but proven: Simple round-robin with fallback
-    for (const provider of this.priceProviders) {
+  async getCryptoPrice(symbol: string): Promise<Degraded<number>> {
+    // Boring but proven: weighted pick with fallback to the next provider
+    const degradations: Degradation[] = [];
+
+    for (const provider of this.priceRouter.order()) {
+      if (!provider.supports(symbol)) continue;
+
+      const start = Date.now();
       try {
         const price = await this.fetchFromProvider(provider, symbol);
+        this.priceRouter.record(provider.name, true, Date.now() - start);
         console.log(`✅ Got price from ${provider.name}: $${price}`);
-        return price;
+        return this.degradationCounter.record({
+          value: price,
+          degradations,
+          fallback: degradations.length === 0 ? null : provider.name,
+          freshness: { asOf: new Date(), ageMs: 0 }
+        });
       } catch (error) {
+        this.priceRouter.record(provider.name, false, Date.now() - start);
         console.warn(`⚠️ ${provider.name} failed, trying next...`);
+        degradations.push({ capability: `price:${provider.name}`, code: 'SOURCE_FAILED', detail: error.message });
         continue;
       }
     }
@@ -95,25 +449,43 @@ class BoringTechChoices {
     throw new Error('All price providers failed');
   }
 
-  private async fetchFromProvider(provider: any, symbol: string): Promise<number> {
-    // Boring but works: Simple fetch with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
+  getProviderHealth() {
+    return this.priceRouter.getHealth();
+  }
 
-    try {
-      const response = await fetch(
-        `${provider.url}?ids=${symbol}&vs_currencies=usd`,
-        { signal: controller.signal }
-      );
+  // Consensus mode: for trades, not for tickers - all providers at once, median, quorum
+  async getConsensusPrice(symbol: string, options: ConsensusOptions = {}): Promise<ConsensusPrice> {
+    const result = await getConsensusPrice(this.priceProviders, symbol, options);
+    console.log(`🤝 ${symbol} consensus $${result.price} from ${result.agreed.map(q => q.source).join(', ')}`);
+    return result;
+  }
 
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  private async fetchFromProvider(provider: PriceProvider, symbol: string): Promise<number> {
+    // Boring but works: the same timeout + retry + breaker policies as every other call
+    // A malformed response won't fix itself on retry - only retry transport/HTTP failures
+    // (an open breaker is never retried - withRetry handles that for every caller)
+    const retryable = (error: any) => !(error instanceof PriceProviderError) || error.code === 'HTTP_ERROR';
+
+    return wrap(
+      signal => provider.getPrice(symbol, signal),
+      withRetry({ attempts: 2, shouldRetry: retryable }),
+      this.breakerFor(provider.name).policy,
+      withTimeout(5000) // 5s timeout
+    )();
+  }
 
-      const data = await response.json();
-      return data[symbol]?.usd || data.data?.[0]?.priceUsd || 0;
+  // One breaker per dependency, so a sick provider is skipped instantly
+  private breakers = new Map<string, CircuitBreaker>();
 
-    } finally {
-      clearTimeout(timeoutId);
+  private breakerFor(name: string): CircuitBreaker {
+    if (!this.breakers.has(name)) {
+      this.breakers.set(name, new CircuitBreaker(name));
     }
+    return this.breakers.get(name)!;
+  }
+
+  getBreakerStates() {
+    return [...this.breakers.values()].map(breaker => breaker.getState());
   }
 
   // SCENARIO: Store user queries safely
@@ -158,12 +530,21 @@ class BoringTechChoices {
 
   private requestQueue: Array<{userId: string, query: string, resolve: Function, reject: Function}> = [];
   private processing = false;
-  private readonly MAX_CONCURRENT = 5; // Boring but prevents API overload
+
+  // Saturation: depth / capacity climbing means users are waiting on us, not on OpenAI
+  private llmQueueDepth: Gauge;
+  private llmQueueCapacity: Gauge;
+
+  private get maxConcurrent(): number {
+    // Boring but prevents API overload - tunable (and revertible) at runtime
+    return this.config.get('llm.maxConcurrent');
+  }
 
   async analyzeCrypto(userId: string, query: string): Promise<string> {
     // Boring but effective: Simple queue to prevent API rate limits
     return new Promise((resolve, reject) => {
       this.requestQueue.push({ userId, query, resolve, reject });
+      this.llmQueueDepth.set(this.requestQueue.length);
       this.processQueue();
     });
   }
@@ -175,7 +556,9 @@ class BoringTechChoices {
 
     // Process requests in batches - boring but prevents rate limiting
     while (this.requestQueue.length > 0) {
-      const batch = this.requestQueue.splice(0, this.MAX_CONCURRENT);
+      const batch = this.requestQueue.splice(0, this.maxConcurrent);
+      this.llmQueueDepth.set(this.requestQueue.length);
+      this.llmQueueCapacity.set(this.maxConcurrent);
 
       await Promise.allSettled(
         batch.map(async (request) => {
@@ -198,29 +581,35 @@ class BoringTechChoices {
   }
 
   private async callOpenAI(query: string): Promise<string> {
-    // Boring but proven: Standard OpenAI API call
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4', // Boring but stable
-        messages: [
-          { role: 'system', content: 'You are a crypto research analyst.' },
-          { role: 'user', content: query }
-        ],
-        max_tokens: 500
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
+    // Boring but proven: Standard OpenAI API call, behind the same policies as price fetches
+    // Retry 429s and 5xx; other 4xx won't get better by asking again
+    const retryable = (error: any) => !(error instanceof HttpError) || error.status === 429 || error.status >= 500;
+
+    return wrap(async signal => {
+      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: 'gpt-4', // Boring but stable
+          messages: [
+            { role: 'system', content: 'You are a crypto research analyst.' },
+            { role: 'user', content: query }
+          ],
+          max_tokens: 500
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new HttpError(response.status, `OpenAI API error: ${response.status}`);
+      }
 
-    const data = await response.json();
-    return data.choices[0].message.content;
+      const data = await response.json();
+      return data.choices[0].message.content;
+    }, withRetry({ attempts: 3, baseDelayMs: 500, shouldRetry: retryable }), this.breakerFor('OpenAI').policy, withTimeout(30000))();
   }
 }
 
@@ -248,7 +637,7 @@ class BoringTechChoices {
 //
 //    LOAD BALANCING CRYPTO PRICES:
 //    ❌ Exciting: Custom ML-based routing system
-//    ✅ Boring: Simple round-robin with fallback (shown above)
+//    ✅ Boring: Weighted pick + health checks + fallback (shown above)
 //
 //    DATABASE QUERIES:
 //    ❌ Exciting: Latest graph database with complex queries
@@ -1,5 +1,7 @@
 // Principle 8: First-Principles Thinking
 
+import type { VersionedConfigStore } from './02-reversible-decisions';
+
 // ❌ BAD: Copying complex solutions without understanding the problem
 class CopiedTradingBot {
   // Blindly copied from "Advanced Trading Strategies" blog post
@@ -75,35 +77,161 @@ class CopiedSubscriptionSystem {
   }
 }
 
+// Proration from first principles: the user paid for a plan until the period ends.
+// Switching mid-cycle = give back the unused part of the old plan, charge the rest of the cycle on the new one.
+// Amounts are in cents so repeated changes never drift by fractions of a cent.
+export interface BillingAccount {
+  plan: string;
+  periodStart: Date;
+  periodEnd: Date;
+  creditBalanceCents: number; // from earlier downgrades, spent on the next charge
+}
+
+export interface ProrationLineItem {
+  description: string;
+  amountCents: number; // positive = charge, negative = credit; items always add up to chargeCents
+}
+
+export interface ProrationQuote {
+  fromPlan: string;
+  toPlan: string;
+  effectiveAt: Date;
+  lineItems: ProrationLineItem[];
+  chargeCents: number;              // what to charge the card now (never negative)
+  creditBalanceAfterCents: number;  // what's left on the account afterwards
+}
+
+const PRORATION_DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ProrationEngine {
+  constructor(
+    private prices: () => Record<string, number>, // dollars per period, e.g. config 'plans.prices'
+    private clock: () => Date = () => new Date()
+  ) {}
+
+  quote(account: BillingAccount, newPlan: string): ProrationQuote {
+    const prices = this.prices();
+    if (prices[account.plan] === undefined) throw new Error(`Unknown plan: ${account.plan}`);
+    if (prices[newPlan] === undefined) throw new Error(`Unknown plan: ${newPlan}`);
+    if (newPlan === account.plan) throw new Error(`Already on the ${newPlan} plan`);
+
+    const now = this.clock();
+    const periodMs = account.periodEnd.getTime() - account.periodStart.getTime();
+    const remainingMs = account.periodEnd.getTime() - now.getTime();
+    if (periodMs <= 0 || remainingMs < 0 || now < account.periodStart) {
+      throw new Error('Plan change is outside the current billing period');
+    }
+
+    // Whatever plan they hold right now is paid up to periodEnd - true after any number of earlier changes
+    const fraction = remainingMs / periodMs;
+    const days = `${Math.round(remainingMs / PRORATION_DAY_MS)} of ${Math.round(periodMs / PRORATION_DAY_MS)} days`;
+    const unusedCredit = Math.round(prices[account.plan] * 100 * fraction);
+    const remainingCharge = Math.round(prices[newPlan] * 100 * fraction);
+
+    const lineItems: ProrationLineItem[] = [
+      { description: `Unused time on ${account.plan} (${days})`, amountCents: -unusedCredit },
+      { description: `Remaining time on ${newPlan} (${days})`, amountCents: remainingCharge }
+    ];
+
+    let net = remainingCharge - unusedCredit;
+    let creditBalance = account.creditBalanceCents;
+
+    if (net < 0) {
+      // Downgrade: no refund to the card, the difference becomes account credit
+      lineItems.push({ description: 'Moved to account credit', amountCents: -net });
+      creditBalance += -net;
+      net = 0;
+    } else if (net > 0 && creditBalance > 0) {
+      const applied = Math.min(creditBalance, net);
+      lineItems.push({ description: 'Account credit applied', amountCents: -applied });
+      creditBalance -= applied;
+      net -= applied;
+    }
+
+    return {
+      fromPlan: account.plan,
+      toPlan: newPlan,
+      effectiveAt: now,
+      lineItems,
+      chargeCents: net,
+      creditBalanceAfterCents: creditBalance
+    };
+  }
+
+  // Call after the charge succeeded - the quote is the record of what happened
+  apply(account: BillingAccount, quote: ProrationQuote): void {
+    account.plan = quote.toPlan;
+    account.creditBalanceCents = quote.creditBalanceAfterCents;
+  }
+
+  // A new period on the same plan: credit from earlier downgrades goes first, the card pays the rest
+  renewal(account: Pick<BillingAccount, 'plan' | 'creditBalanceCents'>): RenewalQuote {
+    const price = this.prices()[account.plan];
+    if (price === undefined) throw new Error(`Unknown plan: ${account.plan}`);
+
+    const priceCents = Math.round(price * 100);
+    const applied = Math.min(account.creditBalanceCents, priceCents);
+    const lineItems: ProrationLineItem[] = [{ description: `${account.plan} plan, next period`, amountCents: priceCents }];
+    if (applied > 0) lineItems.push({ description: 'Account credit applied', amountCents: -applied });
+
+    return {
+      plan: account.plan,
+      lineItems,
+      chargeCents: priceCents - applied,
+      creditBalanceAfterCents: account.creditBalanceCents - applied
+    };
+  }
+}
+
+export interface RenewalQuote {
+  plan: string;
+  lineItems: ProrationLineItem[];
+  chargeCents: number;              // what to charge the card (zero when credit covers the period)
+  creditBalanceAfterCents: number;  // store only after the charge succeeded
+}
+
+// Upgrade basic → pro 10 days into a 30-day cycle:
+//   Unused time on basic (20 of 30 days)    -$6.67
+//   Remaining time on pro (20 of 30 days)  +$33.33
+//   Charge now                              $26.66
+// Downgrade back 5 days later: -$25.00 + $5.00 → $20.00 account credit, nothing refunded
+
 // ✅ GOOD: First-principles subscription system
 class SimpleSubscriptionSystem {
-  // Problem: Users want to upgrade their plan and pay the difference
-  // First principle: Charge difference in price, update plan
-  // Solution: Simple plan switching with basic prorating
+  // Problem: Users want to change their plan and pay the difference
+  // First principle: Pay for the time you actually use on each plan
+  // Solution: Simple plan switching with time-based proration
 
   private users: Record<string, User> = {};
-  private planPrices = { basic: 10, pro: 50, enterprise: 200 };
+  private proration: ProrationEngine;
+
+  constructor(private config: VersionedConfigStore, clock: () => Date = () => new Date()) {
+    this.proration = new ProrationEngine(() => this.planPrices, clock);
+  }
 
-  async upgradeUser(userId: string, newPlan: keyof typeof this.planPrices): Promise<void> {
+  private get planPrices() {
+    // Read on every call so a price change (or its rollback) applies immediately
+    return this.config.get('plans.prices');
+  }
+
+  // Upgrades and downgrades, any number of times per cycle
+  async upgradeUser(userId: string, newPlan: keyof typeof this.planPrices): Promise<ProrationQuote> {
     const user = this.users[userId];
     if (!user) throw new Error('User not found');
 
-    const currentPrice = this.planPrices[user.plan as keyof typeof this.planPrices];
-    const newPrice = this.planPrices[newPlan];
-    const priceDiff = newPrice - currentPrice;
+    const quote = this.proration.quote(user, newPlan);
 
-    if (priceDiff <= 0) {
-      throw new Error('Cannot downgrade or same plan');
+    // Charge only for the time left in the cycle, minus what they already paid for
+    if (quote.chargeCents > 0) {
+      await this.chargeUser(userId, quote.chargeCents / 100);
     }
 
-    // Simple charge for the difference
-    await this.chargeUser(userId, priceDiff);
-
     // Update user plan
-    user.plan = newPlan;
-    user.planUpdatedAt = new Date();
+    this.proration.apply(user, quote);
+    user.planUpdatedAt = quote.effectiveAt;
 
-    console.log(`User ${userId} upgraded to ${newPlan} for $${priceDiff}`);
+    console.log(`User ${userId} moved to ${newPlan}: charged $${(quote.chargeCents / 100).toFixed(2)}, credit $${(quote.creditBalanceAfterCents / 100).toFixed(2)}`);
+    return quote;
   }
 
   private async chargeUser(userId: string, amount: number): Promise<void> {
@@ -245,9 +373,8 @@ class GasOptimizationEngine {
   }
 }
 
-interface User {
+interface User extends BillingAccount {
   id: string;
-  plan: string;
   planUpdatedAt: Date;
 }
 
@@ -1,5 +1,9 @@
 // Principle 10: Scale Up Before Scale Out
 
+import { Outbox, OutboxStore } from './03-contain-blast-radius';
+import type { ConsensusPrice } from './06-boring-proven-tech';
+import { ProrationEngine } from './08-first-principles';
+
 // ❌ BAD: Jumping to microservices too early
 class PrematureMicroservices {
   // For a simple crypto trading app with 100 users!
@@ -30,7 +34,17 @@ class OptimizedTradingApp {
   // Simple, fast, handles thousands of users
   private cache = new Map<string, any>();
 
+  // Optional consensus mode: pass e.g. a BoringTechChoices instance to price trades
+  // from several agreeing sources instead of trusting one cached feed
+  constructor(private consensusPrices?: { getConsensusPrice(symbol: string): Promise<ConsensusPrice> }) {}
+
   async buyToken(userId: string, symbol: string, amount: number): Promise<void> {
+    // Verify the price BEFORE opening the transaction - never hold a DB lock across network calls.
+    // No quorum → QuorumNotReachedError, and the trade doesn't happen.
+    const verifiedPrice = this.consensusPrices
+      ? (await this.consensusPrices.getConsensusPrice(symbol)).price
+      : null;
+
     // Single database transaction - simple and fast
     await this.database.transaction(async (tx) => {
       // Get user and portfolio in one query
@@ -45,8 +59,8 @@ class OptimizedTradingApp {
         throw new Error('Insufficient balance');
       }
 
-      // Get cached price (much faster than API call)
-      const price = this.getCachedPrice(symbol);
+      // Get cached price (much faster than API call) unless consensus mode verified one
+      const price = verifiedPrice ?? this.getCachedPrice(symbol);
       const tokens = amount / price;
 
       // Update balance and holdings in one query
@@ -124,26 +138,40 @@ class PrematureSubscriptionScaling {
 class SimpleSubscriptionSystem {
   private users: Map<string, User> = new Map();
   private planPrices = { basic: 10, pro: 50, enterprise: 200 };
+  private proration: ProrationEngine;
+
+  // Background emails go through a durable outbox - a restart or SMTP outage doesn't lose them
+  readonly outbox: Outbox;
+
+  // The owner of the outbox file starts the worker: system.outbox.start()
+  constructor(
+    outboxStore: OutboxStore,
+    clock: () => Date = () => new Date()
+  ) {
+    this.outbox = new Outbox(outboxStore, {
+      'upgrade-email': ({ email, plan }) => this.sendUpgradeEmail(email, plan)
+    });
+    this.proration = new ProrationEngine(() => this.planPrices, clock);
+  }
 
   async upgradeSubscription(userId: string, newPlan: keyof typeof this.planPrices): Promise<void> {
     const user = this.users.get(userId);
     if (!user) throw new Error('User not found');
 
-    const oldPrice = this.planPrices[user.plan as keyof typeof this.planPrices];
-    const newPrice = this.planPrices[newPlan];
-    const priceDiff = newPrice - oldPrice;
-
-    if (priceDiff <= 0) throw new Error('Cannot downgrade');
+    // Prorated for the rest of the cycle; downgrades become account credit
+    const quote = this.proration.quote(user, newPlan);
 
-    // Simple upgrade process
-    await this.chargeUser(userId, priceDiff);
-    user.plan = newPlan;
-    user.upgradedAt = new Date();
+    // Simple upgrade process - still one process, one database
+    if (quote.chargeCents > 0) {
+      await this.chargeUser(userId, quote.chargeCents / 100);
+    }
+    this.proration.apply(user, quote);
+    user.upgradedAt = quote.effectiveAt;
 
     // Send email asynchronously (don't block the upgrade)
     this.sendUpgradeEmailAsync(user.email, newPlan);
 
-    console.log(`User ${userId} upgraded to ${newPlan} for $${priceDiff}`);
+    console.log(`User ${userId} moved to ${newPlan} for $${(quote.chargeCents / 100).toFixed(2)}`);
   }
 
   private async chargeUser(userId: string, amount: number): Promise<void> {
@@ -152,13 +180,20 @@ class SimpleSubscriptionSystem {
   }
 
   private sendUpgradeEmailAsync(email: string, plan: string): void {
-    // Send email in background, don't block upgrade
-    setTimeout(() => {
-      console.log(`Sent upgrade email to ${email} for ${plan} plan`);
-    }, 100);
+    // Send email in background, don't block upgrade - the outbox worker delivers and retries it
+    this.outbox.enqueue('upgrade-email', { email, plan }).catch(error => {
+      console.error(`Could not queue upgrade email for ${email}:`, error);
+    });
+  }
+
+  private async sendUpgradeEmail(email: string, plan: string): Promise<void> {
+    console.log(`Sent upgrade email to ${email} for ${plan} plan`);
   }
 }
 
+// const subscriptions = new SimpleSubscriptionSystem(new FileOutboxStore('./outbox/subscriptions.json'));
+// subscriptions.outbox.start(); // one worker, in the process that owns the outbox file
+
 // Scale up techniques (use these before microservices!)
 class ScaleUpTechniques {
 
@@ -254,6 +289,9 @@ interface User {
   email: string;
   plan: string;
   upgradedAt: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  creditBalanceCents: number;
 }
 
 // Key takeaway for juniors: